@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router';
+import App from './App';
+import { SessionProvider } from './state/SessionStore';
+import { setAiProvider, type AiProvider } from './services/aiProvider';
+import { createMockProvider } from './services/mockProvider';
+import { AiError } from './services/aiErrors';
+import { deleteProject, listProjects } from './services/projectRepository';
+
+// jsdom has no canvas or layout, so the Konva stage, the crop tool, image
+// decoding and the Leaflet map are replaced with stand-ins. Everything else,
+// from the session store down to IndexedDB, runs for real against the
+// offline AI provider.
+
+const PREVIEW = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+const PHOTO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+vi.mock('./components/EditorCanvas', () => ({
+    default: ({ stageRef, layers }: { stageRef: React.MutableRefObject<unknown>; layers: { id: string; name: string }[] }) => {
+        useEffect(() => {
+            stageRef.current = {};
+        }, [stageRef]);
+        return <ul data-testid="editor-canvas">{layers.map(layer => <li key={layer.id}>{layer.name}</li>)}</ul>;
+    },
+    exportStageImage: () => PREVIEW,
+}));
+
+vi.mock('./components/CropPanel', () => ({
+    default: ({ image, onApply }: { image: string; onApply: (image: string) => void }) => (
+        <button onClick={() => onApply(image)}>Apply Crop</button>
+    ),
+}));
+
+vi.mock('./services/imageUtils', async (importOriginal) => ({
+    ...await importOriginal<typeof import('./services/imageUtils')>(),
+    loadImage: async () => ({ naturalWidth: 800, naturalHeight: 600 }) as HTMLImageElement,
+}));
+
+vi.mock('./services/backgroundRemoval', async (importOriginal) => ({
+    ...await importOriginal<typeof import('./services/backgroundRemoval')>(),
+    removeWhiteBackground: async (image: string) => image,
+}));
+
+vi.mock('react-leaflet', () => ({
+    MapContainer: ({ children }: { children: React.ReactNode }) => <div data-testid="map">{children}</div>,
+    TileLayer: () => null,
+    Marker: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+    Popup: () => null,
+    useMap: () => ({ flyTo: () => {} }),
+}));
+
+const renderApp = () => {
+    const queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } });
+    return render(
+        <QueryClientProvider client={queryClient}>
+            <MemoryRouter>
+                <SessionProvider>
+                    <App />
+                </SessionProvider>
+            </MemoryRouter>
+        </QueryClientProvider>
+    );
+};
+
+// The mock provider answers after a short simulated latency.
+const AI_TIMEOUT = { timeout: 5000 };
+
+beforeEach(async () => {
+    setAiProvider(createMockProvider());
+    await Promise.all((await listProjects()).map(p => deleteProject(p.id)));
+});
+
+afterEach(() => {
+    cleanup();
+    setAiProvider(null);
+});
+
+describe('App', () => {
+    it('designs, tries on, books an artist and finds the project in the gallery', async () => {
+        renderApp();
+
+        // START -> DESIGN
+        fireEvent.click(screen.getByRole('button', { name: /Start Designing/ }));
+        expect(await screen.findByText('1. Describe Your Tattoo')).toBeTruthy();
+
+        fireEvent.change(screen.getByPlaceholderText(/A majestic lion/), { target: { value: 'A koi fish' } });
+        fireEvent.click(screen.getByRole('button', { name: /Generate Designs/ }));
+        const selectButtons = await screen.findAllByRole('button', { name: 'Select & Try On' }, AI_TIMEOUT);
+        expect(selectButtons.length).toBeGreaterThan(0);
+
+        // DESIGN -> TRY_ON
+        fireEvent.click(selectButtons[0]);
+        expect(await screen.findByText('3. Virtual Try-On')).toBeTruthy();
+
+        const photoInput = screen.getByText('Upload Photo').querySelector('input[type="file"]')!;
+        fireEvent.change(photoInput, { target: { files: [new File([PHOTO], 'me.png', { type: 'image/png' })] } });
+        fireEvent.click(await screen.findByRole('button', { name: 'Apply Crop' }));
+        expect(await within(await screen.findByTestId('editor-canvas')).findByText('Design 1')).toBeTruthy();
+
+        // TRY_ON -> DONE
+        const usePreview = screen.getByRole('button', { name: 'Use This Preview' });
+        await waitFor(() => expect((usePreview as HTMLButtonElement).disabled).toBe(false));
+        fireEvent.click(usePreview);
+        expect(await screen.findByText('4. Your Finished Design')).toBeTruthy();
+        expect(screen.getByAltText('Final tattoo design').getAttribute('src')).toBe(PREVIEW);
+
+        // DONE -> FIND_ARTIST
+        fireEvent.click(screen.getByRole('button', { name: 'Find an Artist' }));
+        expect(await screen.findByText('Find Your Perfect Tattoo Artist')).toBeTruthy();
+        const contactButtons = await screen.findAllByRole('button', { name: 'Contact Artist' }, AI_TIMEOUT);
+        expect(screen.getByText('Iron Lotus Tattoo')).toBeTruthy();
+
+        fireEvent.click(contactButtons[0]);
+        fireEvent.click(await screen.findByRole('button', { name: 'Send Consultation Request' }));
+
+        // FIND_ARTIST -> GALLERY
+        fireEvent.click(screen.getByRole('button', { name: /My Gallery/ }));
+        expect(await screen.findByRole('heading', { name: 'My Gallery' })).toBeTruthy();
+        expect(await screen.findByText('Iron Lotus Tattoo')).toBeTruthy();
+
+        await waitFor(async () => {
+            const [saved] = await listProjects();
+            expect(saved?.artist.name).toBe('Iron Lotus Tattoo');
+            expect(saved?.previewImage).toBe(PREVIEW);
+            expect(saved?.designImage).toBe(saved?.versions?.find(v => v.id === saved.currentVersionId)?.image);
+        });
+        const [saved] = await listProjects();
+        expect(screen.getByAltText('Saved tattoo design').getAttribute('src')).toBe(saved.designImage);
+    }, 20000);
+
+    it('saves the selected design with its versions and restores it after a reload', async () => {
+        renderApp();
+        fireEvent.click(screen.getByRole('button', { name: /Start Designing/ }));
+        fireEvent.change(await screen.findByPlaceholderText(/A majestic lion/), { target: { value: 'A koi fish' } });
+        fireEvent.click(screen.getByRole('button', { name: /Generate Designs/ }));
+        const selectButtons = await screen.findAllByRole('button', { name: 'Select & Try On' }, AI_TIMEOUT);
+        // Offline edits echo their input, so a refinement looks like the design it came from.
+        const design = selectButtons[1].parentElement!.querySelector('img')!.getAttribute('src');
+
+        // Refine the second design so the saved project has a version tree, then
+        // try on the refinement the panel moves to once it lands.
+        fireEvent.click(screen.getAllByRole('button', { name: 'Refine' })[1]);
+        fireEvent.click(screen.getAllByRole('button', { name: 'Refine' }).at(-1)!);
+        await screen.findByRole('button', { name: /Refining/ });
+        await waitFor(() => expect(screen.queryByRole('button', { name: /Refining/ })).toBeNull(), AI_TIMEOUT);
+        fireEvent.click(screen.getAllByRole('button', { name: 'Select & Try On' }).at(-1)!);
+        const photoInput = (await screen.findByText('Upload Photo')).querySelector('input[type="file"]')!;
+        fireEvent.change(photoInput, { target: { files: [new File([PHOTO], 'me.png', { type: 'image/png' })] } });
+        fireEvent.click(await screen.findByRole('button', { name: 'Apply Crop' }));
+        const usePreview = await screen.findByRole('button', { name: 'Use This Preview' });
+        await waitFor(() => expect((usePreview as HTMLButtonElement).disabled).toBe(false));
+        fireEvent.click(usePreview);
+        fireEvent.click(await screen.findByRole('button', { name: /Save Design/ }));
+        await waitFor(async () => expect(await listProjects()).toHaveLength(1));
+
+        // A fresh session reads the project back from IndexedDB.
+        cleanup();
+        renderApp();
+        fireEvent.click(screen.getByRole('button', { name: /My Gallery/ }));
+        const card = await screen.findByAltText('Saved tattoo design');
+        expect(card.getAttribute('src')).toBe(design);
+
+        fireEvent.click(card);
+        expect((await screen.findByAltText('Try-on preview')).getAttribute('src')).toBe(PREVIEW);
+        const [saved] = await listProjects();
+        const current = saved.versions?.find(v => v.id === saved.currentVersionId);
+        expect(current?.image).toBe(design);
+        expect(saved.versions?.find(v => v.id === current?.parentId)).toBeTruthy();
+    }, 20000);
+
+    it('aborts a refinement when its Cancel button is clicked', async () => {
+        // Edits hang until cancelled, so the test controls when the request ends.
+        const editSignals: AbortSignal[] = [];
+        const provider: AiProvider = {
+            ...createMockProvider(),
+            editImage: (_parts, _context, signal) => new Promise<string>((_, reject) => {
+                editSignals.push(signal!);
+                signal!.addEventListener('abort', () => reject(new AiError('cancelled', 'The request was cancelled.')));
+            }),
+        };
+        setAiProvider(provider);
+        renderApp();
+
+        fireEvent.click(screen.getByRole('button', { name: /Start Designing/ }));
+        fireEvent.change(await screen.findByPlaceholderText(/A majestic lion/), { target: { value: 'A koi fish' } });
+        fireEvent.click(screen.getByRole('button', { name: /Generate Designs/ }));
+        fireEvent.click((await screen.findAllByRole('button', { name: 'Refine' }, AI_TIMEOUT))[0]);
+
+        // The panel's own Refine button comes after the ones on the design cards.
+        fireEvent.click(screen.getAllByRole('button', { name: 'Refine' }).at(-1)!);
+        // The task tray lists the run too; use the Cancel next to the panel's Refining button.
+        const refining = await screen.findByRole('button', { name: /Refining/ });
+        fireEvent.click(within(refining.parentElement!).getByRole('button', { name: 'Cancel' }));
+
+        expect(editSignals.length).toBeGreaterThan(0);
+        expect(editSignals.every(signal => signal.aborted)).toBe(true);
+        await waitFor(() => expect(screen.queryByRole('button', { name: /Refining/ })).toBeNull());
+    }, 20000);
+});
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { SkinBlendSettings } from '../types';
+import { SparklesIcon } from './icons';
+
+interface AdjustmentPanelProps {
+  settings: SkinBlendSettings;
+  onChange: (settings: SkinBlendSettings) => void;
+  // Takes the local preview as the finished image, without an AI call.
+  onUsePreview: () => void;
+  onPhotorealBlend: () => void;
+  isBlending: boolean;
+  disabled: boolean;
+}
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ settings, onChange, onUsePreview, onPhotorealBlend, isBlending, disabled }) => {
+  return (
+    <div className="bg-black/20 p-4 rounded-xl border border-amber-500/10">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-gray-200">Skin Preview</h3>
+        <button
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          className={`px-3 py-1 text-xs rounded-full transition-colors ${settings.enabled ? 'bg-amber-500 text-gray-900 font-bold' : 'bg-amber-500/10 text-amber-300 hover:bg-amber-500/20'}`}
+        >
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">An instant preview of the ink in your skin, drawn on your device.</p>
+
+      <div className={`mt-3 space-y-3 ${settings.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+        <label className="block text-xs text-gray-400">
+          Ink Density ({Math.round(settings.inkDensity * 100)}%)
+          <input
+            type="range"
+            min={0.3}
+            max={1}
+            step={0.05}
+            value={settings.inkDensity}
+            onChange={(e) => onChange({ ...settings, inkDensity: Number(e.target.value) })}
+            className="w-full accent-amber-500"
+          />
+        </label>
+        <label className="block text-xs text-gray-400">
+          <span className="flex justify-between">
+            <span>Fresh</span>
+            <span>Healed</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.healing}
+            onChange={(e) => onChange({ ...settings, healing: Number(e.target.value) })}
+            className="w-full accent-amber-500"
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 space-y-2">
+        <button
+          onClick={onUsePreview}
+          disabled={disabled}
+          className="w-full bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-3 px-4 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Use This Preview
+        </button>
+        <button
+          onClick={onPhotorealBlend}
+          disabled={disabled || isBlending}
+          className="w-full bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <SparklesIcon className="w-5 h-5" /> {isBlending ? 'Blending...' : 'Photoreal Blend (AI)'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentPanel;
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { AI_ERROR_HINTS, AI_ERROR_TITLES, isRetryableAiError, toAiError } from '../services/aiErrors';
+import { XCircleIcon, XIcon } from './icons';
+
+interface AiErrorBannerProps {
+  error: Error;
+  onDismiss: () => void;
+  onRetry?: () => void;
+}
+
+const AiErrorBanner: React.FC<AiErrorBannerProps> = ({ error, onDismiss, onRetry }) => {
+  const aiError = toAiError(error);
+  if (aiError.kind === 'cancelled') return null;
+
+  return (
+    <div className="bg-gray-800 border border-red-500/50 rounded-lg p-4 flex items-start gap-3 animate-fade-in" role="alert">
+      <XCircleIcon className="w-6 h-6 text-red-500 flex-shrink-0" />
+      <div className="flex-grow">
+        <h2 className="font-bold text-red-400">{AI_ERROR_TITLES[aiError.kind]}</h2>
+        <p className="text-sm text-gray-300 mt-1">{aiError.message}</p>
+        <p className="text-xs text-gray-500 mt-1">{AI_ERROR_HINTS[aiError.kind]}</p>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className={`mt-3 font-bold py-1.5 px-4 rounded-lg text-sm transition-colors ${isRetryableAiError(aiError) ? 'bg-red-500 hover:bg-red-400 text-white' : 'bg-black/20 hover:bg-black/40 text-gray-300'}`}
+          >
+            Try Again
+          </button>
+        )}
+      </div>
+      <button onClick={onDismiss} className="text-gray-500 hover:text-white" aria-label="Dismiss">
+        <XIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
+
+interface TaskErrorBannerProps {
+  task: { error: Error | null; reset: () => void; retry: () => void };
+}
+
+// Each task reports its failure next to the part of the app that started it.
+export const TaskErrorBanner: React.FC<TaskErrorBannerProps> = ({ task }) => task.error && (
+  <div className="mt-4">
+    <AiErrorBanner error={task.error} onDismiss={task.reset} onRetry={task.retry} />
+  </div>
+);
+
+export default AiErrorBanner;
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { loadImage } from '../services/imageUtils';
+
+interface BrushMaskProps {
+  image: string;
+  // Called after each stroke with a white-on-black mask at the image's size, or null when nothing is painted.
+  onChange: (mask: string | null) => void;
+}
+
+const BRUSH_COLOR = 'rgba(245, 158, 11, 1)';
+
+const BrushMask: React.FC<BrushMaskProps> = ({ image, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(24);
+  const [isErasing, setIsErasing] = useState(false);
+  const [hasMask, setHasMask] = useState(false);
+
+  // The overlay canvas matches the design's native size so the mask lines up pixel for pixel.
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image).then(img => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      setHasMask(false);
+      onChange(null);
+    }).catch(error => console.error('Failed to load design for masking', error));
+    return () => { cancelled = true; };
+  }, [image]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d');
+    const from = lastPointRef.current;
+    if (!ctx || !from) return;
+    const to = toCanvasPoint(e);
+    ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = BRUSH_COLOR;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    // Brush size is in screen pixels, whatever the design's resolution.
+    ctx.lineWidth = brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    lastPointRef.current = to;
+  };
+
+  const exportMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const overlay = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const maskCtx = mask.getContext('2d');
+    if (!maskCtx) return;
+    const maskData = maskCtx.createImageData(canvas.width, canvas.height);
+    let painted = false;
+    for (let i = 0; i < overlay.data.length; i += 4) {
+      const value = overlay.data[i + 3] > 0 ? 255 : 0;
+      if (value) painted = true;
+      maskData.data[i] = maskData.data[i + 1] = maskData.data[i + 2] = value;
+      maskData.data[i + 3] = 255;
+    }
+    maskCtx.putImageData(maskData, 0, 0);
+    setHasMask(painted);
+    onChange(painted ? mask.toDataURL('image/png') : null);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <div className="relative bg-white rounded-lg overflow-hidden">
+        <img src={image} alt="Design to refine" className="w-full block select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            lastPointRef.current = toCanvasPoint(e);
+            drawTo(e);
+          }}
+          onPointerMove={(e) => lastPointRef.current && drawTo(e)}
+          onPointerUp={() => {
+            lastPointRef.current = null;
+            exportMask();
+          }}
+          onPointerCancel={() => { lastPointRef.current = null; }}
+        />
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <label className="flex-grow text-xs text-gray-400">
+          Brush Size ({brushSize}px)
+          <input type="range" min={4} max={80} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-full accent-amber-500" />
+        </label>
+        <button
+          onClick={() => setIsErasing(erasing => !erasing)}
+          className={`px-3 py-1 text-sm rounded-full transition-colors ${isErasing ? 'bg-amber-500 text-gray-900 font-bold' : 'bg-amber-500/10 text-amber-300 hover:bg-amber-500/20'}`}
+        >
+          Eraser
+        </button>
+        <button onClick={handleClear} disabled={!hasMask} className="px-3 py-1 text-sm rounded-full bg-black/20 text-gray-400 hover:bg-black/40 disabled:opacity-30">
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BrushMask;
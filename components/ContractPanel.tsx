@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import type { Contract, ContractStatus } from '../types';
+import { CONTRACT_TRANSITIONS, SUPPORTED_CURRENCIES, formatAppointment, formatPrice, updateContract, ContractUpdate } from '../services/contractService';
+
+const STATUS_STYLES: Record<ContractStatus, string> = {
+  'Pending': 'bg-yellow-500/10 text-yellow-300 border-yellow-500/30',
+  'Approved': 'bg-blue-500/10 text-blue-300 border-blue-500/30',
+  'In Progress': 'bg-purple-500/10 text-purple-300 border-purple-500/30',
+  'Completed': 'bg-green-500/10 text-green-300 border-green-500/30',
+};
+
+export const ContractStatusBadge: React.FC<{ status: ContractStatus; className?: string }> = ({ status, className = '' }) => (
+  <span className={`inline-flex items-center text-xs font-semibold px-2.5 py-1 rounded-full border ${STATUS_STYLES[status]} ${className}`}>
+    {status}
+  </span>
+);
+
+// datetime-local inputs work in local time without a zone; the contract stores ISO timestamps.
+const toLocalInputValue = (iso: string): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const parseAmount = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+interface ContractPanelProps {
+  contract: Contract;
+  onChange: (contract: Contract) => void;
+}
+
+const ContractPanel: React.FC<ContractPanelProps> = ({ contract, onChange }) => {
+  const [currency, setCurrency] = useState(contract.price.currency);
+  const [amount, setAmount] = useState(contract.price.amount?.toString() ?? '');
+  const [deposit, setDeposit] = useState(contract.price.deposit?.toString() ?? '');
+  const [appointment, setAppointment] = useState(toLocalInputValue(contract.appointmentDate));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCurrency(contract.price.currency);
+    setAmount(contract.price.amount?.toString() ?? '');
+    setDeposit(contract.price.deposit?.toString() ?? '');
+    setAppointment(toLocalInputValue(contract.appointmentDate));
+  }, [contract]);
+
+  const apply = (update: ContractUpdate) => {
+    try {
+      onChange(updateContract(contract, update));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The contract could not be updated.');
+    }
+  };
+
+  const priceLocked = contract.status === 'In Progress' || contract.status === 'Completed';
+  const nextStatuses = CONTRACT_TRANSITIONS[contract.status];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-gray-400">Status</span>
+        <ContractStatusBadge status={contract.status} />
+      </div>
+      {nextStatuses.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {nextStatuses.map(status => (
+            <button
+              key={status}
+              onClick={() => apply({ status })}
+              className="flex-1 bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 text-sm font-bold py-2 px-3 rounded-lg transition-colors"
+            >
+              Mark as {status}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <span className="text-sm text-gray-400">Price</span>
+        <div className="mt-1 grid grid-cols-3 gap-2">
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            disabled={priceLocked}
+            className="bg-gray-800 border border-amber-500/20 rounded-lg p-2 text-sm focus:outline-none disabled:opacity-50"
+          >
+            {SUPPORTED_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            disabled={priceLocked}
+            placeholder="Total"
+            className="bg-gray-800 border border-amber-500/20 rounded-lg p-2 text-sm focus:outline-none disabled:opacity-50"
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={deposit}
+            onChange={(e) => setDeposit(e.target.value)}
+            disabled={priceLocked}
+            placeholder="Deposit"
+            className="bg-gray-800 border border-amber-500/20 rounded-lg p-2 text-sm focus:outline-none disabled:opacity-50"
+          />
+        </div>
+        {!priceLocked && (
+          <button
+            onClick={() => apply({ price: { currency, amount: parseAmount(amount), deposit: parseAmount(deposit) } })}
+            className="mt-2 w-full bg-black/20 hover:bg-black/40 text-amber-300 text-sm font-bold py-2 rounded-lg transition-colors"
+          >
+            Save Price
+          </button>
+        )}
+      </div>
+
+      <div>
+        <span className="text-sm text-gray-400">Appointment</span>
+        <div className="mt-1 flex gap-2">
+          <input
+            type="datetime-local"
+            value={appointment}
+            onChange={(e) => setAppointment(e.target.value)}
+            className="flex-grow bg-gray-800 border border-amber-500/20 rounded-lg p-2 text-sm focus:outline-none"
+          />
+          <button
+            onClick={() => apply({ appointmentDate: appointment ? new Date(appointment).toISOString() : '' })}
+            className="bg-black/20 hover:bg-black/40 text-amber-300 text-sm font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div>
+        <span className="text-sm text-gray-400">History</span>
+        {contract.history.length === 0 ? (
+          <p className="text-xs text-gray-500 mt-1">No changes yet.</p>
+        ) : (
+          <ul className="mt-1 space-y-1 text-xs text-gray-400 max-h-32 overflow-y-auto">
+            {[...contract.history].reverse().map((change, idx) => (
+              <li key={idx}>
+                <span className="text-gray-500">{formatAppointment(change.changedAt)}</span>{' '}
+                {change.field === 'appointmentDate' ? 'Appointment' : change.field === 'price' ? 'Price' : 'Status'}: {change.from} → <span className="text-gray-200">{change.to}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">Current terms: {formatPrice(contract.price)}, {formatAppointment(contract.appointmentDate)}.</p>
+    </div>
+  );
+};
+
+export default ContractPanel;
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Stage, Layer, Image as KonvaImage, Rect, Transformer } from 'react-konva';
+import useImage from 'use-image';
+import type Konva from 'konva';
+import { applyPhotoAdjustments, fitWithin, renderRotatedImage, CropRect, FULL_CROP } from '../services/photoTransform';
+import { useElementWidth } from '../hooks/useElementWidth';
+
+const PREVIEW_MAX_HEIGHT = 520;
+
+const ASPECT_PRESETS: { label: string; ratio: number | null }[] = [
+  { label: 'Free', ratio: null },
+  { label: '1:1', ratio: 1 },
+  { label: '3:4', ratio: 3 / 4 },
+  { label: '4:3', ratio: 4 / 3 },
+  { label: '9:16', ratio: 9 / 16 },
+];
+
+// Largest centered crop with the given pixel aspect ratio.
+const centeredCrop = (ratio: number | null, imageWidth: number, imageHeight: number): CropRect => {
+  if (!ratio) return FULL_CROP;
+  let width = imageWidth;
+  let height = width / ratio;
+  if (height > imageHeight) {
+    height = imageHeight;
+    width = height * ratio;
+  }
+  return {
+    x: (imageWidth - width) / 2 / imageWidth,
+    y: (imageHeight - height) / 2 / imageHeight,
+    width: width / imageWidth,
+    height: height / imageHeight,
+  };
+};
+
+interface CropPanelProps {
+  image: string;
+  onApply: (image: string) => void;
+  onCancel?: () => void;
+}
+
+const CropPanel: React.FC<CropPanelProps> = ({ image, onApply, onCancel }) => {
+  const [img] = useImage(image, 'anonymous');
+  const [containerRef, containerWidth] = useElementWidth<HTMLDivElement>();
+  const [quarterTurns, setQuarterTurns] = useState(0);
+  const [straighten, setStraighten] = useState(0);
+  const [flipX, setFlipX] = useState(false);
+  const [flipY, setFlipY] = useState(false);
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+  const [isApplying, setIsApplying] = useState(false);
+  const cropRef = useRef<Konva.Rect>(null);
+  const transformerRef = useRef<Konva.Transformer>(null);
+
+  const rotation = quarterTurns * 90 + straighten;
+  const rotated = useMemo(() => img ? renderRotatedImage(img, rotation, flipX, flipY) : null, [img, rotation, flipX, flipY]);
+  const display = rotated ? fitWithin(rotated.width, rotated.height, containerWidth || 1, PREVIEW_MAX_HEIGHT) : null;
+
+  // A new orientation changes the image bounds, so start the crop over.
+  useEffect(() => {
+    if (rotated) setCrop(centeredCrop(aspectRatio, rotated.width, rotated.height));
+  }, [rotated, aspectRatio]);
+
+  useEffect(() => {
+    if (transformerRef.current && cropRef.current) {
+      transformerRef.current.nodes([cropRef.current]);
+      transformerRef.current.getLayer()?.batchDraw();
+    }
+  }, [display?.width, display?.height]);
+
+  const commitCropNode = () => {
+    const node = cropRef.current;
+    if (!node || !display) return;
+    const width = node.width() * node.scaleX();
+    const height = node.height() * node.scaleY();
+    node.scaleX(1);
+    node.scaleY(1);
+    setCrop({
+      x: node.x() / display.width,
+      y: node.y() / display.height,
+      width: width / display.width,
+      height: height / display.height,
+    });
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      onApply(await applyPhotoAdjustments(image, { rotation, flipX, flipY, crop }));
+    } catch (error) {
+      console.error('Failed to adjust photo', error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const buttonClass = 'bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 text-sm font-semibold py-2 px-3 rounded-lg transition-colors';
+  const cropBox = display && {
+    x: crop.x * display.width,
+    y: crop.y * display.height,
+    width: crop.width * display.width,
+    height: crop.height * display.height,
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-8 bg-black/20 p-6 rounded-xl border border-amber-500/10">
+      <h3 className="text-xl font-bold text-gray-200">Frame Your Photo</h3>
+      <p className="text-gray-400 mt-1 mb-4 text-sm">Crop to the placement area and straighten the photo before placing your design.</p>
+
+      <div ref={containerRef} className="w-full flex justify-center bg-black/30 rounded-lg">
+        {rotated && display && cropBox && (
+          <Stage width={display.width} height={display.height}>
+            <Layer>
+              <KonvaImage image={rotated} width={display.width} height={display.height} listening={false} />
+              {/* Dim everything outside the crop */}
+              <Rect x={0} y={0} width={display.width} height={cropBox.y} fill="black" opacity={0.55} listening={false} />
+              <Rect x={0} y={cropBox.y + cropBox.height} width={display.width} height={display.height - cropBox.y - cropBox.height} fill="black" opacity={0.55} listening={false} />
+              <Rect x={0} y={cropBox.y} width={cropBox.x} height={cropBox.height} fill="black" opacity={0.55} listening={false} />
+              <Rect x={cropBox.x + cropBox.width} y={cropBox.y} width={display.width - cropBox.x - cropBox.width} height={cropBox.height} fill="black" opacity={0.55} listening={false} />
+              <Rect
+                ref={cropRef}
+                {...cropBox}
+                stroke="#f59e0b"
+                strokeWidth={2}
+                draggable
+                dragBoundFunc={(pos) => ({
+                  x: Math.min(Math.max(pos.x, 0), display.width - cropBox.width),
+                  y: Math.min(Math.max(pos.y, 0), display.height - cropBox.height),
+                })}
+                onDragEnd={commitCropNode}
+                onTransformEnd={commitCropNode}
+              />
+              <Transformer
+                ref={transformerRef}
+                rotateEnabled={false}
+                keepRatio={aspectRatio !== null}
+                enabledAnchors={aspectRatio !== null ? ['top-left', 'top-right', 'bottom-left', 'bottom-right'] : undefined}
+                boundBoxFunc={(oldBox, newBox) => {
+                  const outOfBounds = newBox.x < -1 || newBox.y < -1 || newBox.x + newBox.width > display.width + 1 || newBox.y + newBox.height > display.height + 1;
+                  if (outOfBounds || newBox.width < 20 || newBox.height < 20) {
+                    return oldBox;
+                  }
+                  return newBox;
+                }}
+              />
+            </Layer>
+          </Stage>
+        )}
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setQuarterTurns(t => (t + 3) % 4)} className={buttonClass}>Rotate Left</button>
+            <button onClick={() => setQuarterTurns(t => (t + 1) % 4)} className={buttonClass}>Rotate Right</button>
+            <button onClick={() => setFlipX(f => !f)} className={`${buttonClass} ${flipX ? 'ring-1 ring-amber-500' : ''}`}>Flip Horizontal</button>
+            <button onClick={() => setFlipY(f => !f)} className={`${buttonClass} ${flipY ? 'ring-1 ring-amber-500' : ''}`}>Flip Vertical</button>
+          </div>
+          <label className="block text-xs text-gray-400">
+            Straighten ({straighten > 0 ? '+' : ''}{straighten}°)
+            <input
+              type="range"
+              min={-45}
+              max={45}
+              step={0.5}
+              value={straighten}
+              onChange={(e) => setStraighten(Number(e.target.value))}
+              className="w-full accent-amber-500"
+            />
+          </label>
+        </div>
+        <div>
+          <span className="text-xs text-gray-400">Crop Aspect</span>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {ASPECT_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => setAspectRatio(preset.ratio)}
+                className={`px-3 py-1 text-sm rounded-full transition-colors ${aspectRatio === preset.ratio ? 'bg-amber-500 text-gray-900 font-bold' : 'bg-amber-500/10 text-amber-300 hover:bg-amber-500/20'}`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6 flex flex-col sm:flex-row gap-3 justify-end">
+        {onCancel && (
+          <button onClick={onCancel} className="bg-black/20 hover:bg-black/40 text-gray-400 font-bold py-3 px-6 rounded-lg transition-colors">
+            Cancel
+          </button>
+        )}
+        <button onClick={handleApply} disabled={!rotated || isApplying} className="bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-3 px-6 rounded-lg transition-colors disabled:opacity-50">
+          {isApplying ? 'Applying...' : 'Use This Photo'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CropPanel;
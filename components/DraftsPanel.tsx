@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { DraftSummary } from '../types';
+import { ArtPlaceholderIcon, FileTextIcon, PlusIcon, TrashIcon, XIcon } from './icons';
+
+const formatUpdatedAt = (updatedAt: string) =>
+  new Date(updatedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+interface ResumeDraftPromptProps {
+  draft: DraftSummary;
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+// Offered once on load when earlier work was left unfinished.
+export const ResumeDraftPrompt: React.FC<ResumeDraftPromptProps> = ({ draft, onResume, onDismiss }) => (
+  <div className="mb-6 bg-gray-800 border border-amber-500/30 rounded-lg p-4 flex items-center gap-4 animate-fade-in" role="status">
+    {draft.thumbnail ? (
+      <img src={draft.thumbnail} alt="" className="w-14 h-14 rounded-md object-cover bg-white flex-shrink-0" />
+    ) : (
+      <FileTextIcon className="w-10 h-10 text-amber-400 flex-shrink-0" />
+    )}
+    <div className="flex-grow min-w-0">
+      <p className="font-bold text-gray-200">Resume where you left off?</p>
+      <p className="text-sm text-gray-400 truncate">{draft.name} · {formatUpdatedAt(draft.updatedAt)}</p>
+    </div>
+    <button onClick={onResume} className="bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-2 px-4 rounded-lg transition-colors">
+      Resume
+    </button>
+    <button onClick={onDismiss} className="text-sm text-gray-400 hover:text-white">
+      Start Fresh
+    </button>
+  </div>
+);
+
+interface DraftsPanelProps {
+  drafts: DraftSummary[];
+  activeDraftId: string | null;
+  onOpen: (draftId: string) => void;
+  onRename: (draftId: string, name: string) => void;
+  onDelete: (draftId: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const DraftsPanel: React.FC<DraftsPanelProps> = ({ drafts, activeDraftId, onOpen, onRename, onDelete, onNew, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+
+  const startRename = (draft: DraftSummary) => {
+    setEditingId(draft.id);
+    setNameDraft(draft.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && nameDraft.trim()) onRename(editingId, nameDraft.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-gray-800 border border-amber-500/20 rounded-lg w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-amber-500/10">
+          <div>
+            <h2 className="text-xl font-bold text-amber-400">Drafts</h2>
+            <p className="text-xs text-gray-500">Your work is saved automatically. Keep several ideas going and switch between them.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white" aria-label="Close">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <ul className="flex-grow overflow-y-auto divide-y divide-amber-500/10">
+          {drafts.length === 0 && <li className="p-6 text-center text-sm text-gray-500">No drafts yet. Start designing and your work will appear here.</li>}
+          {drafts.map(draft => (
+            <li key={draft.id} className={`p-4 flex items-center gap-4 ${draft.id === activeDraftId ? 'bg-amber-500/5' : ''}`}>
+              {draft.thumbnail ? (
+                <img src={draft.thumbnail} alt="" className="w-16 h-16 rounded-md object-cover bg-white flex-shrink-0" />
+              ) : (
+                <div className="w-16 h-16 rounded-md bg-black/20 flex items-center justify-center text-gray-600 flex-shrink-0">
+                  <ArtPlaceholderIcon className="w-8 h-8" />
+                </div>
+              )}
+              <div className="flex-grow min-w-0">
+                {editingId === draft.id ? (
+                  <input
+                    autoFocus
+                    value={nameDraft}
+                    onChange={(e) => setNameDraft(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                    className="w-full bg-gray-900/50 border border-amber-500/20 rounded-lg p-1 text-sm focus:outline-none"
+                  />
+                ) : (
+                  <button onClick={() => startRename(draft)} className="block max-w-full text-left font-semibold text-gray-200 hover:text-amber-300 truncate" title="Rename">
+                    {draft.name}
+                  </button>
+                )}
+                <p className="text-xs text-gray-500">
+                  {draft.id === activeDraftId ? 'Open now · ' : ''}Saved {formatUpdatedAt(draft.updatedAt)}
+                </p>
+              </div>
+              {draft.id !== activeDraftId && (
+                <button onClick={() => onOpen(draft.id)} className="bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-2 px-4 rounded-lg transition-colors text-sm">
+                  Open
+                </button>
+              )}
+              <button
+                onClick={() => { if (window.confirm(`Delete the draft "${draft.name}"? This cannot be undone.`)) onDelete(draft.id); }}
+                className="text-gray-500 hover:text-red-400"
+                aria-label="Delete draft"
+              >
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="p-4 border-t border-amber-500/10">
+          <button onClick={onNew} className="w-full bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2">
+            <PlusIcon className="w-5 h-5" /> New Draft
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DraftsPanel;
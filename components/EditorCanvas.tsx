@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Stage, Layer, Group, Image as KonvaImage, Line, Circle, Transformer } from 'react-konva';
+import useImage from 'use-image';
+import Konva from 'konva';
+import type { MeshWarp, SkinBlendSettings, TattooLayer } from '../types';
+import { COMPOSITE_OPERATIONS } from '../services/tattooLayers';
+import { fitWithin } from '../services/photoTransform';
+import { createMeshWarp, isIdentityWarp, moveWarpPoint, renderMeshWarp } from '../services/meshWarp';
+import { createInkAgingFilter, skinBlendBlurRadius } from '../services/skinBlend';
+import { useElementWidth } from '../hooks/useElementWidth';
+
+const MAX_DISPLAY_HEIGHT_RATIO = 0.7;
+
+const BackgroundImage: React.FC<{ imageUrl: string; width: number; height: number }> = ({ imageUrl, width, height }) => {
+  const [img] = useImage(imageUrl, 'anonymous');
+  return <KonvaImage image={img} width={width} height={height} listening={false} />;
+};
+
+interface TattooLayerNodeProps {
+  layer: TattooLayer;
+  isSelected: boolean;
+  isEditingWarp: boolean;
+  // Stage-to-screen scale, so warp handles keep the same on-screen size.
+  displayScale: number;
+  skinBlend: SkinBlendSettings;
+  onSelect: () => void;
+  onChange: (updates: Partial<TattooLayer>) => void;
+}
+
+const WARP_HANDLE_RADIUS = 7;
+
+const TattooLayerNode: React.FC<TattooLayerNodeProps> = ({ layer, isSelected, isEditingWarp, displayScale, skinBlend, onSelect, onChange }) => {
+  const [img] = useImage(layer.image, 'anonymous');
+  const groupRef = useRef<Konva.Group>(null);
+  const imageRef = useRef<Konva.Image>(null);
+  const transformerRef = useRef<Konva.Transformer>(null);
+  // Holds the mesh while a handle is being dragged; committed on drag end.
+  const [draftWarp, setDraftWarp] = useState<MeshWarp | null>(null);
+  const showTransformer = isSelected && !layer.locked && layer.visible && !isEditingWarp;
+  const showWarpHandles = isSelected && !layer.locked && layer.visible && isEditingWarp;
+  const warp = draftWarp ?? (showWarpHandles ? layer.warp ?? createMeshWarp() : layer.warp);
+
+  const warped = useMemo(
+    () => img && warp && !isIdentityWarp(warp) ? renderMeshWarp(img, warp, layer.width, layer.height) : null,
+    [img, warp, layer.width, layer.height]
+  );
+
+  const inkAgingFilter = useMemo(() => skinBlend.enabled ? createInkAgingFilter(skinBlend) : null, [skinBlend]);
+
+  // Konva filters only run on a cached node, so re-cache whenever the pixels or settings change.
+  useEffect(() => {
+    const node = imageRef.current;
+    if (!node) return;
+    if (inkAgingFilter && node.image()) {
+      node.cache();
+    } else {
+      node.clearCache();
+    }
+    node.getLayer()?.batchDraw();
+  }, [inkAgingFilter, img, warped, layer.width, layer.height]);
+
+  useEffect(() => {
+    if (showTransformer && transformerRef.current && groupRef.current) {
+      transformerRef.current.nodes([groupRef.current]);
+      transformerRef.current.getLayer()?.batchDraw();
+    }
+  }, [showTransformer]);
+
+  const handleScaleX = 1 / (displayScale * layer.scaleX);
+  const handleScaleY = 1 / (displayScale * layer.scaleY);
+
+  return (
+    <>
+      <Group
+        ref={groupRef}
+        x={layer.x}
+        y={layer.y}
+        scaleX={layer.scaleX}
+        scaleY={layer.scaleY}
+        rotation={layer.rotation}
+        visible={layer.visible}
+        listening={!layer.locked}
+        draggable={!layer.locked && !isEditingWarp}
+        onMouseDown={onSelect}
+        onTap={onSelect}
+        onDragEnd={(e) => {
+          // Warp handle drags bubble up to the group.
+          if (e.target === groupRef.current) onChange({ x: e.target.x(), y: e.target.y() });
+        }}
+        onTransformEnd={() => {
+          const node = groupRef.current;
+          if (node) {
+            onChange({
+              x: node.x(),
+              y: node.y(),
+              scaleX: node.scaleX(),
+              scaleY: node.scaleY(),
+              rotation: node.rotation(),
+            });
+          }
+        }}
+      >
+        <KonvaImage
+          ref={imageRef}
+          image={warped ? warped.canvas : img}
+          x={warped ? warped.x : 0}
+          y={warped ? warped.y : 0}
+          width={warped ? warped.canvas.width : layer.width}
+          height={warped ? warped.canvas.height : layer.height}
+          opacity={layer.opacity}
+          globalCompositeOperation={inkAgingFilter ? 'multiply' : COMPOSITE_OPERATIONS[layer.blendMode]}
+          filters={inkAgingFilter ? [Konva.Filters.Blur, inkAgingFilter] : []}
+          blurRadius={skinBlendBlurRadius(skinBlend, Math.max(layer.width, layer.height))}
+        />
+        {showWarpHandles && warp && (
+          <>
+            {Array.from({ length: warp.rows }, (_, row) => (
+              <Line
+                key={`row-${row}`}
+                points={warp.points.slice(row * warp.columns, (row + 1) * warp.columns).flatMap(p => [p.x * layer.width, p.y * layer.height])}
+                stroke="#f59e0b"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                tension={0.5}
+                name="warp-editor"
+                listening={false}
+              />
+            ))}
+            {Array.from({ length: warp.columns }, (_, column) => (
+              <Line
+                key={`column-${column}`}
+                points={warp.points.filter((_, i) => i % warp.columns === column).flatMap(p => [p.x * layer.width, p.y * layer.height])}
+                stroke="#f59e0b"
+                strokeWidth={1}
+                strokeScaleEnabled={false}
+                tension={0.5}
+                name="warp-editor"
+                listening={false}
+              />
+            ))}
+            {warp.points.map((point, index) => (
+              <Circle
+                key={index}
+                name="warp-editor"
+                x={point.x * layer.width}
+                y={point.y * layer.height}
+                radius={WARP_HANDLE_RADIUS}
+                scaleX={handleScaleX}
+                scaleY={handleScaleY}
+                fill="#f59e0b"
+                stroke="#111827"
+                strokeWidth={2}
+                draggable
+                onDragMove={(e) => setDraftWarp(moveWarpPoint(warp, index, { x: e.target.x() / layer.width, y: e.target.y() / layer.height }))}
+                onDragEnd={(e) => {
+                  onChange({ warp: moveWarpPoint(warp, index, { x: e.target.x() / layer.width, y: e.target.y() / layer.height }) });
+                  setDraftWarp(null);
+                }}
+              />
+            ))}
+          </>
+        )}
+      </Group>
+      {showTransformer && (
+        <Transformer
+          ref={transformerRef}
+          boundBoxFunc={(oldBox, newBox) => {
+            if (newBox.width < 5 || newBox.height < 5) {
+              return oldBox;
+            }
+            return newBox;
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+interface EditorCanvasProps {
+  stageRef: React.RefObject<Konva.Stage | null>;
+  backgroundImage: string;
+  // Scene size in photo pixels. Layers are positioned in this space and the
+  // stage is scaled to fit the available width, so the photo is never distorted.
+  sceneWidth: number;
+  sceneHeight: number;
+  layers: TattooLayer[];
+  selectedLayerId: string | null;
+  // Shows the mesh handles of the selected layer instead of its transformer.
+  isEditingWarp: boolean;
+  skinBlend: SkinBlendSettings;
+  onSelectLayer: (layerId: string | null) => void;
+  onChangeLayer: (layerId: string, updates: Partial<TattooLayer>) => void;
+}
+
+const EditorCanvas: React.FC<EditorCanvasProps> = ({ stageRef, backgroundImage, sceneWidth, sceneHeight, layers, selectedLayerId, isEditingWarp, skinBlend, onSelectLayer, onChangeLayer }) => {
+  const [containerRef, containerWidth] = useElementWidth<HTMLDivElement>();
+  const display = fitWithin(sceneWidth, sceneHeight, containerWidth || sceneWidth, window.innerHeight * MAX_DISPLAY_HEIGHT_RATIO);
+
+  return (
+    <div ref={containerRef} className="w-full flex justify-center">
+      <Stage
+        width={display.width}
+        height={display.height}
+        scaleX={display.scale}
+        scaleY={display.scale}
+        ref={stageRef}
+        className="rounded-md"
+        onMouseDown={e => {
+          const clickedOnEmpty = e.target === e.target.getStage();
+          if (clickedOnEmpty) {
+            onSelectLayer(null);
+          }
+        }}
+      >
+        <Layer>
+          <BackgroundImage imageUrl={backgroundImage} width={sceneWidth} height={sceneHeight} />
+          {layers.map(layer => (
+            <TattooLayerNode
+              key={layer.id}
+              layer={layer}
+              isSelected={selectedLayerId === layer.id}
+              isEditingWarp={isEditingWarp}
+              displayScale={display.scale}
+              skinBlend={skinBlend}
+              onSelect={() => onSelectLayer(layer.id)}
+              onChange={(updates) => onChangeLayer(layer.id, updates)}
+            />
+          ))}
+        </Layer>
+      </Stage>
+    </div>
+  );
+};
+
+// Renders the stage at the photo's native resolution without selection
+// handles, e.g. for sending to the blend step.
+export const exportStageImage = (stage: Konva.Stage): string => {
+  const editorNodes = stage.find('Transformer, .warp-editor');
+  editorNodes.forEach(node => node.hide());
+  const dataURL = stage.toDataURL({ pixelRatio: 1 / stage.scaleX() });
+  editorNodes.forEach(node => node.show());
+  return dataURL;
+};
+
+export default EditorCanvas;
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { GenerationSettings } from '../types';
+import type { ImageModelInfo } from '../services/aiProvider';
+import { ASPECT_RATIOS, MAX_IMAGE_COUNT, resolveImageModel } from '../services/generationSettings';
+import { ChevronRightIcon } from './icons';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  models: ImageModelInfo[];
+}
+
+const MAX_SEED = 2 ** 31 - 1;
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onChange, models }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const update = (updates: Partial<GenerationSettings>) => onChange({ ...settings, ...updates });
+  const model = resolveImageModel(settings, models);
+  const count = Math.min(settings.count, model.maxImages);
+  const ratio = ASPECT_RATIOS.find(r => r.value === settings.aspectRatio);
+
+  return (
+    <div className="mt-4 bg-gray-900/30 rounded-lg border border-amber-500/10">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center justify-between p-3 text-sm text-gray-300">
+        <span className="flex items-center gap-2">
+          <ChevronRightIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''}`} /> Generation Settings
+        </span>
+        <span className="text-xs text-gray-500">
+          {count} image{count === 1 ? '' : 's'} · {ratio?.label} {settings.aspectRatio} · {model.label}{settings.seed !== null && model.supportsSeed ? ` · seed ${settings.seed}` : ''}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="p-3 pt-0 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <span className="block text-xs text-gray-400 mb-1">Number of Designs</span>
+            <div className="flex gap-1 p-1 bg-black/20 rounded-lg">
+              {Array.from({ length: MAX_IMAGE_COUNT }, (_, i) => i + 1).map(n => (
+                <button
+                  key={n}
+                  onClick={() => update({ count: n })}
+                  disabled={n > model.maxImages}
+                  className={`flex-1 py-1 text-sm rounded-md transition-colors disabled:opacity-30 ${count === n ? 'bg-amber-500 text-gray-900 font-bold' : 'text-amber-300 hover:bg-amber-500/10'}`}
+                >
+                  {n}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Fewer designs cost less per request.</p>
+          </div>
+          <div>
+            <span className="block text-xs text-gray-400 mb-1">Aspect Ratio</span>
+            <div className="flex gap-1 p-1 bg-black/20 rounded-lg">
+              {ASPECT_RATIOS.map(r => (
+                <button
+                  key={r.value}
+                  onClick={() => update({ aspectRatio: r.value })}
+                  title={r.hint}
+                  className={`flex-1 py-1 text-xs rounded-md transition-colors ${settings.aspectRatio === r.value ? 'bg-amber-500 text-gray-900 font-bold' : 'text-amber-300 hover:bg-amber-500/10'}`}
+                >
+                  {r.value}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{ratio?.label}: {ratio?.hint}</p>
+          </div>
+          <label className="block text-xs text-gray-400">
+            Model
+            <select
+              value={model.id}
+              onChange={(e) => update({ model: e.target.value })}
+              className="mt-1 w-full bg-gray-900/50 border border-amber-500/20 rounded-lg p-2 text-sm text-gray-200 focus:outline-none"
+            >
+              {models.map(m => <option key={m.id} value={m.id}>{m.label}{m.maxImages === 1 ? ' (1 image per request)' : ''}</option>)}
+            </select>
+          </label>
+          <div className="text-xs text-gray-400">
+            Seed
+            <div className="mt-1 flex gap-2">
+              <input
+                type="number"
+                min={0}
+                max={MAX_SEED}
+                value={settings.seed ?? ''}
+                placeholder="Random"
+                disabled={!model.supportsSeed}
+                onChange={(e) => update({ seed: e.target.value === '' ? null : Math.min(MAX_SEED, Math.max(0, Math.floor(Number(e.target.value)))) })}
+                className="flex-grow min-w-0 bg-gray-900/50 border border-amber-500/20 rounded-lg p-2 text-sm text-gray-200 focus:outline-none disabled:opacity-40"
+              />
+              <button
+                onClick={() => update({ seed: Math.floor(Math.random() * MAX_SEED) })}
+                disabled={!model.supportsSeed}
+                className="px-3 text-xs rounded-lg bg-amber-500/10 text-amber-300 hover:bg-amber-500/20 disabled:opacity-40"
+              >
+                New
+              </button>
+            </div>
+            <p className="mt-1 text-gray-500">{model.supportsSeed ? 'The same seed and prompt give the same designs.' : `${model.label} does not support seeds.`}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
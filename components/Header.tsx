@@ -3,15 +3,16 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { TattooMachineIcon, GalleryIcon } from './icons';
+import { TattooMachineIcon, GalleryIcon, FileTextIcon } from './icons';
 
 interface HeaderProps {
     onReset: () => void;
     onShowGallery: () => void;
     galleryItemCount: number;
+    onShowDrafts: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onReset, onShowGallery, galleryItemCount }) => {
+const Header: React.FC<HeaderProps> = ({ onReset, onShowGallery, galleryItemCount, onShowDrafts }) => {
   return (
     <header className="w-full py-4 px-8 border-b border-amber-500/10 bg-black/30 backdrop-blur-sm sticky top-0 z-40">
       <div className="flex items-center justify-between">
@@ -29,18 +30,27 @@ const Header: React.FC<HeaderProps> = ({ onReset, onShowGallery, galleryItemCoun
               </h1>
           </div>
           
-          <button
-            onClick={onShowGallery}
-            className="relative bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-semibold py-2 px-5 rounded-lg transition-colors inline-flex items-center gap-2"
-          >
-            <GalleryIcon className="w-5 h-5" />
-            My Gallery
-            {galleryItemCount > 0 && (
-                <span className="absolute -top-2 -right-2 w-6 h-6 bg-amber-500 text-gray-900 text-xs font-bold rounded-full flex items-center justify-center border-2 border-gray-900">
-                    {galleryItemCount}
-                </span>
-            )}
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onShowDrafts}
+              className="bg-black/20 hover:bg-black/40 text-gray-300 font-semibold py-2 px-5 rounded-lg transition-colors inline-flex items-center gap-2"
+            >
+              <FileTextIcon className="w-5 h-5" />
+              Drafts
+            </button>
+            <button
+              onClick={onShowGallery}
+              className="relative bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-semibold py-2 px-5 rounded-lg transition-colors inline-flex items-center gap-2"
+            >
+              <GalleryIcon className="w-5 h-5" />
+              My Gallery
+              {galleryItemCount > 0 && (
+                  <span className="absolute -top-2 -right-2 w-6 h-6 bg-amber-500 text-gray-900 text-xs font-bold rounded-full flex items-center justify-center border-2 border-gray-900">
+                      {galleryItemCount}
+                  </span>
+              )}
+            </button>
+          </div>
       </div>
     </header>
   );
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ACCEPTED_DESIGN_TYPES, cleanDesignBackground, cropDesign, CropRect, detectFlashPieces, readDesignFile } from '../services/designUpload';
+import { loadImage } from '../services/imageUtils';
+import { UploadIcon } from './icons';
+
+interface ImageUploaderProps {
+  onAddDesigns: (images: string[]) => void;
+}
+
+interface PendingUpload {
+  name: string;
+  // The uploaded image after any background cleanup.
+  image: string;
+  size: { width: number; height: number };
+  // Detected flash pieces; empty when the upload is used whole.
+  pieces: CropRect[];
+  selected: boolean[];
+}
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onAddDesigns }) => {
+  const [cleanBackground, setCleanBackground] = useState(true);
+  const [splitFlash, setSplitFlash] = useState(false);
+  const [pending, setPending] = useState<PendingUpload | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsProcessing(true);
+    setError(null);
+    setPending(null);
+    try {
+      const original = await readDesignFile(file);
+      const image = cleanBackground ? await cleanDesignBackground(original) : original;
+      const pieces = splitFlash ? await detectFlashPieces(image) : [];
+      const img = await loadImage(image);
+      setPending({
+        name: file.name.replace(/\.[^.]+$/, '') || 'Uploaded Design',
+        image,
+        size: { width: img.naturalWidth, height: img.naturalHeight },
+        pieces,
+        selected: pieces.map(() => true),
+      });
+    } catch (err) {
+      console.error('Failed to process uploaded design', err);
+      setError(err instanceof Error ? err.message : 'This image could not be used.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!pending) return;
+    setIsProcessing(true);
+    try {
+      if (pending.pieces.length === 0) {
+        onAddDesigns([pending.image]);
+      } else {
+        const chosen = pending.pieces.filter((_, i) => pending.selected[i]);
+        onAddDesigns(await Promise.all(chosen.map(rect => cropDesign(pending.image, rect))));
+      }
+      setPending(null);
+    } catch (err) {
+      console.error('Failed to crop flash pieces', err);
+      setError('The selected pieces could not be cropped.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const selectedCount = pending ? pending.selected.filter(Boolean).length : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className={`bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-2 px-4 rounded-lg transition-colors cursor-pointer inline-flex items-center gap-2 ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}>
+          <UploadIcon className="w-5 h-5" /> {isProcessing ? 'Processing...' : 'Choose Image'}
+          <input type="file" className="hidden" accept={ACCEPTED_DESIGN_TYPES.join(',')} onChange={handleFile} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={cleanBackground} onChange={(e) => setCleanBackground(e.target.checked)} className="accent-amber-500" />
+          Clean up paper background
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={splitFlash} onChange={(e) => setSplitFlash(e.target.checked)} className="accent-amber-500" />
+          Split flash sheet into pieces
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">PNG, JPG or SVG. Works best with dark linework on light paper.</p>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {pending && (
+        <div className="space-y-3">
+          <div className="relative bg-white rounded-lg overflow-hidden max-w-md mx-auto">
+            <img src={pending.image} alt={pending.name} className="w-full block" />
+            {pending.pieces.map((rect, i) => (
+              <button
+                key={i}
+                onClick={() => setPending(prev => prev && { ...prev, selected: prev.selected.map((value, j) => j === i ? !value : value) })}
+                style={{
+                  left: `${(rect.x / pending.size.width) * 100}%`,
+                  top: `${(rect.y / pending.size.height) * 100}%`,
+                  width: `${(rect.width / pending.size.width) * 100}%`,
+                  height: `${(rect.height / pending.size.height) * 100}%`,
+                }}
+                className={`absolute border-2 rounded transition-colors ${pending.selected[i] ? 'border-amber-500 bg-amber-500/10' : 'border-dashed border-gray-400'}`}
+                title={pending.selected[i] ? 'Click to skip this piece' : 'Click to include this piece'}
+              >
+                <span className={`absolute top-0 left-0 px-1 text-xs font-bold ${pending.selected[i] ? 'bg-amber-500 text-gray-900' : 'bg-gray-400 text-white'}`}>{i + 1}</span>
+              </button>
+            ))}
+          </div>
+          {splitFlash && pending.pieces.length === 0 && <p className="text-xs text-gray-500 text-center">No separate pieces were found, so the whole image will be used.</p>}
+          <div className="flex gap-2 justify-center">
+            <button
+              onClick={handleAdd}
+              disabled={isProcessing || (pending.pieces.length > 0 && selectedCount === 0)}
+              className="bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-2 px-6 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {pending.pieces.length > 0 ? `Add ${selectedCount} Design${selectedCount === 1 ? '' : 's'}` : 'Add Design'}
+            </button>
+            <button onClick={() => setPending(null)} className="bg-black/20 hover:bg-black/40 text-gray-400 py-2 px-4 rounded-lg transition-colors">
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageUploader;
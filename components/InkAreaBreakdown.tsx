@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import type { InkColor } from '../types';
+import { InkBreakdown, measureInkAreas } from '../services/palette';
+
+interface InkAreaBreakdownProps {
+  image: string;
+  palette: InkColor[];
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(value < 0.1 ? 1 : 0)}%`;
+
+const InkAreaBreakdown: React.FC<InkAreaBreakdownProps> = ({ image, palette }) => {
+  const [breakdown, setBreakdown] = useState<InkBreakdown | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBreakdown(null);
+    measureInkAreas(image, palette)
+      .then(result => { if (!cancelled) setBreakdown(result); })
+      .catch(error => console.error('Failed to measure ink areas', error));
+    return () => { cancelled = true; };
+  }, [image, palette]);
+
+  if (!breakdown) return <p className="text-sm text-gray-500">Measuring ink areas...</p>;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">Ink covers {formatPercent(breakdown.coverage)} of the design. Shares below are of the inked area.</p>
+      {breakdown.areas.map(area => (
+        <div key={area.color.hex} className="flex items-center gap-2 text-sm">
+          <span className="w-4 h-4 rounded flex-shrink-0 border border-white/10" style={{ backgroundColor: area.color.hex }} />
+          <span className="w-24 truncate text-gray-300">{area.color.name}</span>
+          <span className="flex-grow h-2 bg-black/30 rounded-full overflow-hidden">
+            <span className="block h-full bg-amber-500" style={{ width: `${area.share * 100}%` }} />
+          </span>
+          <span className="w-12 text-right text-xs text-gray-400">{formatPercent(area.share)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default InkAreaBreakdown;
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { InkColor } from '../types';
+import { extractPalette, INK_BLACK, MAX_PALETTE_SIZE, PALETTE_PRESETS } from '../services/palette';
+import { PaletteIcon, XIcon } from './icons';
+
+interface PalettePickerProps {
+  palette: InkColor[];
+  onChange: (palette: InkColor[]) => void;
+  // Style reference to extract a palette from, when one is selected.
+  referenceImage: string | null;
+}
+
+const PalettePicker: React.FC<PalettePickerProps> = ({ palette, onChange, referenceImage }) => {
+  const [newColor, setNewColor] = useState('#c62828');
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    if (palette.length >= MAX_PALETTE_SIZE || palette.some(ink => ink.hex === newColor)) return;
+    onChange([...palette, { name: newColor.toUpperCase(), hex: newColor }]);
+  };
+
+  const handleExtract = async () => {
+    if (!referenceImage) return;
+    setIsExtracting(true);
+    setError(null);
+    try {
+      const extracted = await extractPalette(referenceImage);
+      if (extracted.length === 0) {
+        setError('No distinct colors were found in the reference image.');
+      } else {
+        onChange(extracted.slice(0, MAX_PALETTE_SIZE));
+      }
+    } catch (err) {
+      console.error('Failed to extract palette', err);
+      setError('The reference image could not be read.');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {PALETTE_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => onChange(preset.colors)}
+            className="flex items-center gap-2 px-3 py-1 text-xs rounded-full bg-amber-500/10 text-amber-300 hover:bg-amber-500/20 transition-colors"
+          >
+            <span className="flex">
+              {preset.colors.map(ink => <span key={ink.hex} className="w-3 h-3 rounded-full -mr-1 border border-gray-900" style={{ backgroundColor: ink.hex }} />)}
+            </span>
+            <span className="ml-1">{preset.name}</span>
+          </button>
+        ))}
+        <button
+          onClick={handleExtract}
+          disabled={!referenceImage || isExtracting}
+          title={referenceImage ? undefined : 'Select a style reference first'}
+          className="flex items-center gap-1 px-3 py-1 text-xs rounded-full bg-amber-500/10 text-amber-300 hover:bg-amber-500/20 transition-colors disabled:opacity-40"
+        >
+          <PaletteIcon className="w-4 h-4" /> {isExtracting ? 'Extracting...' : 'From Reference'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="flex items-center gap-1 px-2 py-1 rounded-lg bg-black/20 text-xs text-gray-400" title="Black linework is always included">
+          <span className="w-4 h-4 rounded" style={{ backgroundColor: INK_BLACK.hex }} /> {INK_BLACK.name}
+        </span>
+        {palette.map(ink => (
+          <span key={ink.hex} className="flex items-center gap-1 pl-2 pr-1 py-1 rounded-lg bg-black/20 text-xs text-gray-200">
+            <span className="w-4 h-4 rounded" style={{ backgroundColor: ink.hex }} /> {ink.name}
+            <button onClick={() => onChange(palette.filter(c => c.hex !== ink.hex))} className="text-gray-500 hover:text-white">
+              <XIcon className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        {palette.length < MAX_PALETTE_SIZE && (
+          <span className="flex items-center gap-1">
+            <input type="color" value={newColor} onChange={(e) => setNewColor(e.target.value)} className="w-7 h-7 bg-transparent cursor-pointer" />
+            <button onClick={handleAdd} className="px-2 py-1 text-xs rounded-lg bg-black/20 text-gray-300 hover:bg-black/40">Add</button>
+          </span>
+        )}
+      </div>
+      {palette.length === 0 && <p className="text-xs text-gray-500">Without a palette the AI picks its own colors and the design is not snapped to specific inks.</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PalettePicker;
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { createStencilSheet, PAPER_SIZES, PaperSize, SizeUnit } from '../services/stencilPrint';
+import { downloadBlob } from '../services/imageUtils';
+import { FileTextIcon } from './icons';
+
+interface PrintPanelProps {
+  // Image source of the stencil to print, or null when the project has none yet.
+  stencilSrc: string | null;
+  title: string;
+  artistName: string;
+  fileName: string;
+}
+
+const PrintPanel: React.FC<PrintPanelProps> = ({ stencilSrc, title, artistName, fileName }) => {
+  const [width, setWidth] = useState('10');
+  const [unit, setUnit] = useState<SizeUnit>('cm');
+  const [paper, setPaper] = useState<PaperSize>('a4');
+  const [includeMirrored, setIncludeMirrored] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (!stencilSrc) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const sheet = await createStencilSheet(stencilSrc, { width: Number(width), unit, paper, includeMirrored, title, artistName });
+      downloadBlob(sheet, `${fileName}-stencil-sheet.pdf`);
+    } catch (err) {
+      console.error('Failed to create stencil sheet', err);
+      setError(err instanceof Error ? err.message : 'The stencil sheet could not be created.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = 'bg-gray-900/50 border border-amber-500/20 rounded-lg p-2 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-amber-500';
+
+  return (
+    <div className="mt-6 pt-6 border-t border-amber-500/10">
+      <h3 className="text-lg font-bold mb-3">Print Stencil</h3>
+      {!stencilSrc ? (
+        <p className="text-sm text-gray-500">Save a vector stencil or generate an AI stencil to print it.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <label className="flex-grow text-xs text-gray-400">
+              Tattoo Width
+              <input type="number" min="0.5" step="0.1" value={width} onChange={(e) => setWidth(e.target.value)} className={`mt-1 w-full ${inputClass}`} />
+            </label>
+            <label className="text-xs text-gray-400">
+              Unit
+              <select value={unit} onChange={(e) => setUnit(e.target.value as SizeUnit)} className={`mt-1 block ${inputClass}`}>
+                <option value="cm">cm</option>
+                <option value="in">in</option>
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              Paper
+              <select value={paper} onChange={(e) => setPaper(e.target.value as PaperSize)} className={`mt-1 block ${inputClass}`}>
+                {Object.entries(PAPER_SIZES).map(([value, size]) => <option key={value} value={value}>{size.label}</option>)}
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={includeMirrored} onChange={(e) => setIncludeMirrored(e.target.checked)} className="accent-amber-500" />
+            Include mirrored transfer copy
+          </label>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-2 rounded-lg flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <FileTextIcon className="w-5 h-5" /> {isExporting ? 'Creating PDF...' : 'Download PDF'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrintPanel;
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { DesignVersion } from '../types';
+import { findVersion, getChildVersions, getRootVersion, REFINEMENT_LABELS, versionLabel } from '../services/designVersions';
+import BrushMask from './BrushMask';
+import { SparklesIcon, XIcon } from './icons';
+
+export type RefineRequest =
+  | { refinement: 'variation' }
+  | { refinement: 'edit'; instruction: string }
+  | { refinement: 'inpaint'; instruction: string; mask: string };
+
+type RefineMode = RefineRequest['refinement'];
+
+interface RefinePanelProps {
+  versions: DesignVersion[];
+  activeVersionId: string;
+  onSelectVersion: (versionId: string) => void;
+  onRefine: (parent: DesignVersion, request: RefineRequest) => void;
+  isRefining: boolean;
+  onCancelRefine: () => void;
+  error: string | null;
+  onUseVersion: (version: DesignVersion) => void;
+  // Present when refining a branch of a saved project, to write the chosen version back to it.
+  onSaveToProject?: (version: DesignVersion) => void;
+  saveTargetName?: string;
+  onClose: () => void;
+}
+
+const MODES: { value: RefineMode; label: string; hint: string }[] = [
+  { value: 'variation', label: 'More Like This', hint: 'New takes on this version with the same subject and style.' },
+  { value: 'edit', label: 'Edit', hint: 'Describe a change to the whole design.' },
+  { value: 'inpaint', label: 'Inpaint', hint: 'Brush over an area, then describe what should change there. The rest stays untouched.' },
+];
+
+const VersionNode: React.FC<{ versions: DesignVersion[]; version: DesignVersion; activeVersionId: string; onSelect: (versionId: string) => void; depth: number }> = ({ versions, version, activeVersionId, onSelect, depth }) => (
+  <li>
+    <button
+      onClick={() => onSelect(version.id)}
+      style={{ paddingLeft: `${depth * 16 + 6}px` }}
+      className={`w-full flex items-center gap-2 py-1.5 pr-2 rounded-lg text-left transition-colors ${version.id === activeVersionId ? 'bg-amber-500/20' : 'hover:bg-white/5'}`}
+    >
+      <img src={version.image} alt="" className="w-10 h-10 bg-white rounded object-contain flex-shrink-0" />
+      <span className="min-w-0">
+        <span className="block text-sm text-gray-200">{versionLabel(versions, version.id)}</span>
+        <span className="block text-xs text-gray-500 truncate">
+          {REFINEMENT_LABELS[version.refinement]}{version.instruction ? `: ${version.instruction}` : ''}
+        </span>
+      </span>
+    </button>
+    <ul>
+      {getChildVersions(versions, version.id).map(child => (
+        <VersionNode key={child.id} versions={versions} version={child} activeVersionId={activeVersionId} onSelect={onSelect} depth={depth + 1} />
+      ))}
+    </ul>
+  </li>
+);
+
+const RefinePanel: React.FC<RefinePanelProps> = ({ versions, activeVersionId, onSelectVersion, onRefine, isRefining, onCancelRefine, error, onUseVersion, onSaveToProject, saveTargetName, onClose }) => {
+  const [mode, setMode] = useState<RefineMode>('variation');
+  const [instruction, setInstruction] = useState('');
+  const [mask, setMask] = useState<string | null>(null);
+  const activeVersion = findVersion(versions, activeVersionId);
+  const root = getRootVersion(versions, activeVersionId);
+  if (!activeVersion || !root) return null;
+
+  const canSubmit = !isRefining && (mode === 'variation' || (instruction.trim() !== '' && (mode === 'edit' || mask !== null)));
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    if (mode === 'variation') {
+      onRefine(activeVersion, { refinement: 'variation' });
+    } else if (mode === 'edit') {
+      onRefine(activeVersion, { refinement: 'edit', instruction: instruction.trim() });
+    } else if (mask) {
+      onRefine(activeVersion, { refinement: 'inpaint', instruction: instruction.trim(), mask });
+    }
+    setInstruction('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fade-in">
+      <div className="bg-gray-900 border border-amber-500/20 rounded-lg max-w-5xl w-full max-h-[90vh] flex flex-col relative">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white z-20">
+          <XIcon className="w-6 h-6" />
+        </button>
+        <div className="p-6 border-b border-amber-500/10">
+          <h2 className="text-2xl font-bold text-amber-400">Refine {versionLabel(versions, activeVersion.id)}</h2>
+        </div>
+        <div className="flex-grow flex flex-col md:flex-row overflow-hidden">
+          <div className="md:w-3/5 p-6 overflow-y-auto">
+            {mode === 'inpaint' ? (
+              <BrushMask image={activeVersion.image} onChange={setMask} />
+            ) : (
+              <img src={activeVersion.image} alt={versionLabel(versions, activeVersion.id)} className="w-full rounded-lg bg-white" />
+            )}
+          </div>
+          <div className="md:w-2/5 p-6 flex flex-col gap-4 border-t md:border-t-0 md:border-l border-amber-500/10 overflow-y-auto">
+            <div className="flex gap-1 p-1 bg-black/20 rounded-lg">
+              {MODES.map(m => (
+                <button
+                  key={m.value}
+                  onClick={() => setMode(m.value)}
+                  className={`flex-1 py-1.5 text-sm rounded-md transition-colors ${mode === m.value ? 'bg-amber-500 text-gray-900 font-bold' : 'text-amber-300 hover:bg-amber-500/10'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">{MODES.find(m => m.value === mode)?.hint}</p>
+            {mode !== 'variation' && (
+              <textarea
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                placeholder={mode === 'edit' ? "e.g., make the lion's mane flowing" : 'e.g., replace this with a rose'}
+                rows={3}
+                className="w-full bg-gray-900/50 border border-amber-500/20 rounded-lg p-3 text-sm focus:ring-2 focus:ring-amber-500 focus:outline-none"
+              />
+            )}
+            <button
+              onClick={handleSubmit}
+              disabled={!canSubmit}
+              className="w-full bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <SparklesIcon className="w-5 h-5" /> {isRefining ? 'Refining...' : 'Refine'}
+            </button>
+            {isRefining && (
+              <button onClick={onCancelRefine} className="w-full bg-black/20 hover:bg-black/40 text-gray-400 py-2 px-4 rounded-lg transition-colors text-sm">
+                Cancel
+              </button>
+            )}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <div>
+              <h3 className="text-sm font-bold text-gray-200 mb-2">Versions</h3>
+              <ul className="space-y-1">
+                <VersionNode versions={versions} version={root} activeVersionId={activeVersionId} onSelect={onSelectVersion} depth={0} />
+              </ul>
+            </div>
+
+            {onSaveToProject && (
+              <button
+                onClick={() => onSaveToProject(activeVersion)}
+                className="mt-auto w-full bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-3 px-4 rounded-lg transition-colors"
+              >
+                Save to Project{saveTargetName ? ` with ${saveTargetName}` : ''}
+              </button>
+            )}
+            <button
+              onClick={() => onUseVersion(activeVersion)}
+              className={`${onSaveToProject ? '' : 'mt-auto '}w-full bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-3 px-4 rounded-lg transition-colors`}
+            >
+              Select &amp; Try On
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RefinePanel;
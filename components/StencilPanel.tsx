@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import type { StencilOptions } from '../types';
+import { DEFAULT_STENCIL_OPTIONS, rasterizeStencil, renderStencilSvg, svgToDataURL, traceStencil, StencilTrace } from '../services/stencilVectorizer';
+import { dataURLtoBlob, downloadBlob } from '../services/imageUtils';
+import { SaveIcon, SparklesIcon } from './icons';
+import Spinner from './Spinner';
+
+// Re-tracing is the slow part, so wait for the detail slider to settle.
+const TRACE_DEBOUNCE_MS = 250;
+
+interface StencilPanelProps {
+  designImage: string;
+  stencilSvg?: string;
+  stencilOptions?: StencilOptions;
+  aiStencilImage?: string | null;
+  onSaveVector: (svg: string, options: StencilOptions) => void;
+  onGenerateAi: () => void;
+  isGeneratingAi: boolean;
+  fileName: string;
+}
+
+const StencilPanel: React.FC<StencilPanelProps> = ({ designImage, stencilSvg, stencilOptions, aiStencilImage, onSaveVector, onGenerateAi, isGeneratingAi, fileName }) => {
+  const [mode, setMode] = useState<'vector' | 'ai'>('vector');
+  const [options, setOptions] = useState<StencilOptions>(stencilOptions ?? DEFAULT_STENCIL_OPTIONS);
+  const [trace, setTrace] = useState<StencilTrace | null>(null);
+  const [isTracing, setIsTracing] = useState(false);
+  const [traceError, setTraceError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsTracing(true);
+    const timer = setTimeout(() => {
+      traceStencil(designImage, options.detail)
+        .then(result => {
+          if (!cancelled) {
+            setTrace(result);
+            setTraceError(null);
+          }
+        })
+        .catch(error => {
+          console.error('Failed to trace stencil', error);
+          if (!cancelled) setTraceError('The design could not be traced into a stencil.');
+        })
+        .finally(() => {
+          if (!cancelled) setIsTracing(false);
+        });
+    }, TRACE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [designImage, options.detail]);
+
+  const svg = useMemo(() => trace ? renderStencilSvg(trace, options.lineWeight) : null, [trace, options.lineWeight]);
+  const isSaved = !!svg && svg === stencilSvg;
+
+  const handleDownloadPng = async () => {
+    if (!svg) return;
+    try {
+      downloadBlob(dataURLtoBlob(await rasterizeStencil(svg)), `${fileName}-stencil.png`);
+    } catch (error) {
+      console.error('Failed to export stencil PNG', error);
+    }
+  };
+
+  const tabClass = (active: boolean) => `flex-1 py-1.5 text-sm rounded-md transition-colors ${active ? 'bg-amber-500 text-gray-900 font-bold' : 'text-amber-300 hover:bg-amber-500/10'}`;
+  const buttonClass = 'flex-1 bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 text-sm font-bold py-2 rounded-lg disabled:opacity-50';
+
+  return (
+    <div className="mt-4">
+      <div className="flex gap-1 p-1 bg-black/20 rounded-lg">
+        <button onClick={() => setMode('vector')} className={tabClass(mode === 'vector')}>Vector Stencil</button>
+        <button onClick={() => setMode('ai')} className={tabClass(mode === 'ai')}>AI Trace</button>
+      </div>
+
+      {mode === 'vector' ? (
+        <div className="mt-3 space-y-3">
+          <div className="relative bg-white rounded-lg border-2 border-dashed border-amber-500/20 p-2 min-h-[8rem] flex items-center justify-center">
+            {svg && <img src={svgToDataURL(svg)} alt="Vector stencil" className={`w-full ${isTracing ? 'opacity-50' : ''}`} />}
+            {isTracing && <div className="absolute inset-0 flex items-center justify-center"><Spinner /></div>}
+            {traceError && !isTracing && <p className="text-sm text-red-500">{traceError}</p>}
+          </div>
+          <label className="block text-xs text-gray-400">
+            Detail ({Math.round(options.detail * 100)}%)
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={options.detail}
+              onChange={(e) => setOptions(prev => ({ ...prev, detail: Number(e.target.value) }))}
+              className="w-full accent-amber-500"
+            />
+          </label>
+          <label className="block text-xs text-gray-400">
+            Line Weight ({options.lineWeight})
+            <input
+              type="range"
+              min={1}
+              max={10}
+              step={0.5}
+              value={options.lineWeight}
+              onChange={(e) => setOptions(prev => ({ ...prev, lineWeight: Number(e.target.value) }))}
+              className="w-full accent-amber-500"
+            />
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={() => svg && downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${fileName}-stencil.svg`)}
+              disabled={!svg}
+              className={buttonClass}
+            >
+              SVG
+            </button>
+            <button onClick={handleDownloadPng} disabled={!svg} className={buttonClass} title="300 DPI, pure black and white for thermal printers">
+              PNG
+            </button>
+            <button
+              onClick={() => svg && onSaveVector(svg, options)}
+              disabled={!svg || isSaved}
+              className={`${buttonClass} flex items-center justify-center gap-1`}
+            >
+              <SaveIcon className="w-4 h-4" /> {isSaved ? 'Saved' : 'Save'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-3">
+          {aiStencilImage ? (
+            <img src={aiStencilImage} alt="AI stencil" className="w-full rounded-lg border-2 border-dashed border-amber-500/20 p-2" />
+          ) : (
+            <p className="text-xs text-gray-500">The AI trace redraws the design as linework. Results vary between runs.</p>
+          )}
+          <button
+            onClick={onGenerateAi}
+            disabled={isGeneratingAi}
+            className="mt-3 w-full bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-2 rounded-lg flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <SparklesIcon className="w-5 h-5" /> {aiStencilImage ? 'Regenerate AI Stencil' : 'Generate AI Stencil'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StencilPanel;
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { BodyPlacement, DesignComposition, DesignOptions, InkColorMode, LineWeight, TattooStyleId } from '../types';
+import { applyStylePreset, COLOR_MODE_LABELS, COMPOSITION_LABELS, LINE_WEIGHT_LABELS, PLACEMENT_LABELS, TATTOO_STYLES } from '../services/promptBuilder';
+
+interface StylePresetPickerProps {
+  options: DesignOptions;
+  onChange: (options: DesignOptions) => void;
+}
+
+const SegmentedControl = <T extends string>({ label, value, labels, onChange }: { label: string; value: T; labels: Record<T, string>; onChange: (value: T) => void }) => (
+  <div>
+    <span className="block text-xs text-gray-400 mb-1">{label}</span>
+    <div className="flex gap-1 p-1 bg-black/20 rounded-lg">
+      {(Object.keys(labels) as T[]).map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`flex-1 py-1 text-xs rounded-md transition-colors ${value === option ? 'bg-amber-500 text-gray-900 font-bold' : 'text-amber-300 hover:bg-amber-500/10'}`}
+        >
+          {labels[option]}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const StylePresetPicker: React.FC<StylePresetPickerProps> = ({ options, onChange }) => {
+  const update = (updates: Partial<DesignOptions>) => onChange({ ...options, ...updates });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        {(Object.keys(TATTOO_STYLES) as TattooStyleId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => onChange(applyStylePreset(options, options.style === id ? null : id))}
+            title={TATTOO_STYLES[id].summary}
+            className={`p-2 rounded-lg text-left transition-colors border ${options.style === id ? 'bg-amber-500/20 border-amber-500' : 'bg-gray-900/50 border-amber-500/10 hover:border-amber-500/40'}`}
+          >
+            <span className="block text-sm font-bold text-gray-200">{TATTOO_STYLES[id].label}</span>
+            <span className="block text-[11px] text-gray-500 leading-tight">{TATTOO_STYLES[id].summary}</span>
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <SegmentedControl<InkColorMode> label="Ink" value={options.colorMode} labels={COLOR_MODE_LABELS} onChange={(colorMode) => update({ colorMode })} />
+        <SegmentedControl<LineWeight> label="Line Weight" value={options.lineWeight} labels={LINE_WEIGHT_LABELS} onChange={(lineWeight) => update({ lineWeight })} />
+        <SegmentedControl<DesignComposition> label="Composition" value={options.composition} labels={COMPOSITION_LABELS} onChange={(composition) => update({ composition })} />
+      </div>
+      <label className="block text-xs text-gray-400">
+        Placement
+        <select
+          value={options.placement}
+          onChange={(e) => update({ placement: e.target.value as BodyPlacement })}
+          className="mt-1 block w-full md:w-1/3 bg-gray-900/50 border border-amber-500/20 rounded-lg p-2 text-sm text-gray-200 focus:outline-none focus:ring-1 focus:ring-amber-500"
+        >
+          {(Object.keys(PLACEMENT_LABELS) as BodyPlacement[]).map(placement => <option key={placement} value={placement}>{PLACEMENT_LABELS[placement]}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default StylePresetPicker;
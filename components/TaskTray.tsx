@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { AI_ERROR_HINTS, AI_ERROR_TITLES, toAiError } from '../services/aiErrors';
+import { Task, TASK_LABELS } from '../hooks/useTasks';
+import { ChevronRightIcon, SparklesIcon, XCircleIcon, XIcon } from './icons';
+
+interface TaskTrayProps {
+  tasks: Task[];
+  onCancel: (task: Task) => void;
+  onRetry: (task: Task) => void;
+  onView: (task: Task) => void;
+  onDismiss: (task: Task) => void;
+}
+
+const isCancelled = (task: Task) => task.status === 'error' && toAiError(task.error).kind === 'cancelled';
+
+const TaskTray: React.FC<TaskTrayProps> = ({ tasks, onCancel, onRetry, onView, onDismiss }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const visibleTasks = tasks.filter(task => task.status !== 'idle' && !isCancelled(task)).sort((a, b) => b.submittedAt - a.submittedAt);
+  if (visibleTasks.length === 0) return null;
+
+  const running = visibleTasks.filter(task => task.status === 'pending').length;
+  const failed = visibleTasks.filter(task => task.status === 'error').length;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 bg-gray-800 border border-amber-500/20 rounded-lg shadow-lg animate-fade-in">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center justify-between p-3 text-sm font-bold text-gray-200">
+        <span className="flex items-center gap-2">
+          <ChevronRightIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''}`} /> Tasks
+        </span>
+        <span className="text-xs font-normal text-gray-400">
+          {running > 0 ? `${running} running` : 'All done'}{failed > 0 ? ` · ${failed} failed` : ''}
+        </span>
+      </button>
+      {isOpen && (
+        <ul className="max-h-80 overflow-y-auto border-t border-amber-500/10 divide-y divide-amber-500/10">
+          {visibleTasks.map(task => {
+            const aiError = task.status === 'error' ? toAiError(task.error) : null;
+            return (
+              <li key={task.id} className="p-3 text-sm">
+                <div className="flex items-center gap-2">
+                  {task.status === 'pending' && <span className="w-4 h-4 flex-shrink-0 rounded-full border-2 border-amber-400 border-t-transparent animate-spin" />}
+                  {task.status === 'success' && <SparklesIcon className="w-4 h-4 flex-shrink-0 text-amber-400" />}
+                  {aiError && <XCircleIcon className="w-4 h-4 flex-shrink-0 text-red-500" />}
+                  <span className="flex-grow text-gray-200">{TASK_LABELS[task.kind]}</span>
+                  {task.status === 'pending' ? (
+                    <button onClick={() => onCancel(task)} className="text-xs text-gray-400 hover:text-white">Cancel</button>
+                  ) : (
+                    <button onClick={() => onDismiss(task)} className="text-gray-500 hover:text-white" aria-label="Dismiss">
+                      <XIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {aiError && (
+                  <div className="mt-1 pl-6">
+                    <p className="text-xs font-bold text-red-400">{AI_ERROR_TITLES[aiError.kind]}</p>
+                    <p className="text-xs text-gray-400" title={aiError.message}>{AI_ERROR_HINTS[aiError.kind]}</p>
+                    <button onClick={() => onRetry(task)} className="mt-1 text-xs font-bold text-amber-300 hover:text-amber-200">Try Again</button>
+                  </div>
+                )}
+                {task.status === 'success' && (
+                  <button onClick={() => onView(task)} className="mt-1 pl-6 text-xs font-bold text-amber-300 hover:text-amber-200">View Result</button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskTray;
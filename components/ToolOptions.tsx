@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { TattooBlendMode, TattooLayer, WarpAxis } from '../types';
+import { BLEND_MODES } from '../services/tattooLayers';
+import { createCylindricalWarp, isIdentityWarp } from '../services/meshWarp';
+import { MAX_WHITE_TOLERANCE } from '../services/backgroundRemoval';
+import { ArrowDownIcon, ArrowUpIcon, EyeIcon, EyeSlashIcon, LockClosedIcon, LockOpenIcon, TrashIcon } from './icons';
+
+interface ToolOptionsProps {
+  layers: TattooLayer[];
+  selectedLayerId: string | null;
+  onSelectLayer: (layerId: string) => void;
+  // Changes sharing a coalesce key collapse into a single undo step.
+  onChangeLayer: (layerId: string, updates: Partial<TattooLayer>, coalesceKey?: string) => void;
+  onMoveLayer: (layerId: string, direction: 'up' | 'down') => void;
+  onDeleteLayer: (layerId: string) => void;
+  isEditingWarp: boolean;
+  onToggleWarpEdit: () => void;
+  onChangeBackgroundTolerance: (layerId: string, tolerance: number) => void;
+}
+
+const iconButtonClass = 'p-1.5 rounded-md text-gray-400 hover:text-amber-300 hover:bg-amber-500/10 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400';
+
+const ToolOptions: React.FC<ToolOptionsProps> = ({ layers, selectedLayerId, onSelectLayer, onChangeLayer, onMoveLayer, onDeleteLayer, isEditingWarp, onToggleWarpEdit, onChangeBackgroundTolerance }) => {
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId);
+  // Front-most layer first, like most editors.
+  const orderedLayers = [...layers].reverse();
+
+  return (
+    <div className="bg-black/20 p-4 rounded-xl border border-amber-500/10">
+      <h3 className="text-sm font-bold text-gray-200">Layers</h3>
+      {layers.length === 0 ? (
+        <p className="mt-3 text-xs text-gray-500">Add a design to start composing.</p>
+      ) : (
+        <ul className="mt-3 space-y-1">
+          {orderedLayers.map((layer, idx) => (
+            <li
+              key={layer.id}
+              onClick={() => onSelectLayer(layer.id)}
+              className={`flex items-center gap-2 p-1.5 rounded-lg cursor-pointer transition-colors ${layer.id === selectedLayerId ? 'bg-amber-500/20' : 'hover:bg-white/5'}`}
+            >
+              <img src={layer.image} alt="" className={`w-10 h-10 bg-white rounded object-contain ${layer.visible ? '' : 'opacity-40'}`} />
+              <span className="flex-grow text-sm text-gray-200 truncate">{layer.name}</span>
+              <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                <button onClick={() => onMoveLayer(layer.id, 'up')} disabled={idx === 0} className={iconButtonClass} title="Bring forward">
+                  <ArrowUpIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onMoveLayer(layer.id, 'down')} disabled={idx === orderedLayers.length - 1} className={iconButtonClass} title="Send backward">
+                  <ArrowDownIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onChangeLayer(layer.id, { visible: !layer.visible })} className={iconButtonClass} title={layer.visible ? 'Hide' : 'Show'}>
+                  {layer.visible ? <EyeIcon className="w-4 h-4" /> : <EyeSlashIcon className="w-4 h-4" />}
+                </button>
+                <button onClick={() => onChangeLayer(layer.id, { locked: !layer.locked })} className={iconButtonClass} title={layer.locked ? 'Unlock' : 'Lock'}>
+                  {layer.locked ? <LockClosedIcon className="w-4 h-4 text-amber-400" /> : <LockOpenIcon className="w-4 h-4" />}
+                </button>
+                <button onClick={() => onDeleteLayer(layer.id)} className={`${iconButtonClass} hover:text-red-400`} title="Delete">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedLayer && (
+        <div className="mt-4 pt-4 border-t border-amber-500/10 space-y-3">
+          <label className="block text-xs text-gray-400">
+            Opacity ({Math.round(selectedLayer.opacity * 100)}%)
+            <input
+              type="range"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={selectedLayer.opacity}
+              onChange={(e) => onChangeLayer(selectedLayer.id, { opacity: Number(e.target.value) }, `opacity:${selectedLayer.id}`)}
+              className="w-full accent-amber-500"
+            />
+          </label>
+          <label className="block text-xs text-gray-400">
+            Blend Mode
+            <select
+              value={selectedLayer.blendMode}
+              onChange={(e) => onChangeLayer(selectedLayer.id, { blendMode: e.target.value as TattooBlendMode })}
+              className="mt-1 w-full bg-gray-900/50 border border-amber-500/20 rounded-lg p-2 text-sm text-gray-200 focus:outline-none"
+            >
+              {BLEND_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+            </select>
+          </label>
+          <label className="block text-xs text-gray-400">
+            Background Removal ({Math.round((selectedLayer.backgroundTolerance ?? 0) * 100)}%)
+            <input
+              type="range"
+              min={0}
+              max={MAX_WHITE_TOLERANCE}
+              step={0.01}
+              value={selectedLayer.backgroundTolerance ?? 0}
+              onChange={(e) => onChangeBackgroundTolerance(selectedLayer.id, Number(e.target.value))}
+              className="w-full accent-amber-500"
+            />
+            <span className="text-gray-500">Raise it if a pale haze remains around the ink.</span>
+          </label>
+          <div className="pt-3 border-t border-amber-500/10 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-gray-300">Warp</span>
+              <div className="flex gap-1">
+                <button
+                  onClick={onToggleWarpEdit}
+                  disabled={selectedLayer.locked || !selectedLayer.visible}
+                  className={`px-2 py-1 text-xs rounded-md transition-colors disabled:opacity-30 ${isEditingWarp ? 'bg-amber-500 text-gray-900 font-bold' : 'bg-amber-500/10 text-amber-300 hover:bg-amber-500/20'}`}
+                >
+                  {isEditingWarp ? 'Done' : 'Edit Mesh'}
+                </button>
+                <button
+                  onClick={() => onChangeLayer(selectedLayer.id, { warp: undefined })}
+                  disabled={isIdentityWarp(selectedLayer.warp)}
+                  className="px-2 py-1 text-xs rounded-md bg-black/20 text-gray-400 hover:bg-black/40 disabled:opacity-30"
+                >
+                  Reset
+                </button>
+              </div>
+            </div>
+            <label className="block text-xs text-gray-400">
+              Limb Direction
+              <select
+                value={selectedLayer.warp?.axis ?? 'vertical'}
+                onChange={(e) => onChangeLayer(selectedLayer.id, { warp: createCylindricalWarp(selectedLayer.warp?.curvature ?? 0, e.target.value as WarpAxis) })}
+                className="mt-1 w-full bg-gray-900/50 border border-amber-500/20 rounded-lg p-2 text-sm text-gray-200 focus:outline-none"
+              >
+                <option value="vertical">Vertical (upright forearm, calf)</option>
+                <option value="horizontal">Horizontal (arm held sideways)</option>
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400">
+              Cylinder Wrap ({Math.round((selectedLayer.warp?.curvature ?? 0) * 100)}%)
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={selectedLayer.warp?.curvature ?? 0}
+                onChange={(e) => onChangeLayer(selectedLayer.id, { warp: createCylindricalWarp(Number(e.target.value), selectedLayer.warp?.axis) }, `curvature:${selectedLayer.id}`)}
+                className="w-full accent-amber-500"
+              />
+            </label>
+            <p className="text-xs text-gray-500">The wrap preset replaces any hand-edited mesh points.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolOptions;
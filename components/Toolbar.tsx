@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { PlusIcon } from './icons';
+
+export interface DesignSource {
+  id: string;
+  image: string;
+  // Already background-free copy of `image`, when one is stored.
+  transparentImage?: string;
+  name: string;
+}
+
+interface ToolbarProps {
+  generatedDesigns: DesignSource[];
+  galleryDesigns: DesignSource[];
+  onAddDesign: (design: DesignSource) => void;
+}
+
+const Toolbar: React.FC<ToolbarProps> = ({ generatedDesigns, galleryDesigns, onAddDesign }) => {
+  const [source, setSource] = useState<'generated' | 'gallery'>('generated');
+  const designs = source === 'generated' ? generatedDesigns : galleryDesigns;
+
+  return (
+    <div className="bg-black/20 p-4 rounded-xl border border-amber-500/10">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2"><PlusIcon className="w-5 h-5 text-amber-400"/> Add a Design</h3>
+        <div className="flex gap-1 text-xs">
+          {(['generated', 'gallery'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setSource(option)}
+              className={`px-3 py-1 rounded-full transition-colors ${source === option ? 'bg-amber-500 text-gray-900 font-bold' : 'bg-amber-500/10 text-amber-300 hover:bg-amber-500/20'}`}
+            >
+              {option === 'generated' ? 'Generated' : 'Gallery'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {designs.length === 0 ? (
+        <p className="mt-3 text-xs text-gray-500">{source === 'generated' ? 'Generate designs in the previous step to add them here.' : 'Save designs to your gallery to reuse them here.'}</p>
+      ) : (
+        <div className="mt-3 grid grid-cols-4 gap-2">
+          {designs.map(design => (
+            <button
+              key={design.id}
+              onClick={() => onAddDesign(design)}
+              title={`Add ${design.name}`}
+              className="bg-white rounded-md overflow-hidden border-2 border-transparent hover:border-amber-500 transition-colors"
+            >
+              <img src={design.image} alt={design.name} className="w-full aspect-square object-contain" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Toolbar;
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import type { DesignVersion } from '../types';
+import { findVersion, REFINEMENT_LABELS, resolveProvenance, versionLabel } from '../services/designVersions';
+import { describeDesignOptions } from '../services/promptBuilder';
+import { SparklesIcon, XIcon } from './icons';
+
+interface VersionTimelineProps {
+  versions: DesignVersion[];
+  currentVersionId?: string;
+  onRestore: (versionId: string) => void;
+  onBranch: (versionId: string) => void;
+}
+
+const VersionTimeline: React.FC<VersionTimelineProps> = ({ versions, currentVersionId, onRestore, onBranch }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(currentVersionId ?? versions[versions.length - 1]?.id ?? null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-gray-500">This project was saved before version history was recorded.</p>;
+  }
+
+  const selected = findVersion(versions, selectedId);
+  const compared = findVersion(versions, compareId);
+  const provenance = selected && resolveProvenance(versions, selected.id);
+
+  return (
+    <div className="space-y-4">
+      <ol className="flex gap-3 overflow-x-auto pb-2">
+        {versions.map(version => (
+          <li key={version.id} className="flex-shrink-0 w-24">
+            <button
+              onClick={() => setSelectedId(version.id)}
+              className={`w-full p-1 rounded-lg transition-colors ${version.id === selectedId ? 'bg-amber-500/20 ring-1 ring-amber-500' : 'hover:bg-white/5'}`}
+            >
+              <img src={version.image} alt="" className="w-full aspect-square bg-white rounded object-contain" />
+              <span className="block mt-1 text-xs text-gray-200 truncate">{versionLabel(versions, version.id)}</span>
+              <span className="block text-[10px] text-gray-500">{new Date(version.createdAt).toLocaleDateString()}</span>
+              {version.id === currentVersionId && <span className="block text-[10px] font-bold text-amber-400">Current</span>}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {selected && provenance && (
+        <div className="bg-black/20 rounded-lg p-3 text-sm space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-gray-200">{versionLabel(versions, selected.id)}</span>
+            <span className="text-xs text-gray-400">{REFINEMENT_LABELS[selected.refinement]} · {new Date(selected.createdAt).toLocaleString()}</span>
+          </div>
+          <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-gray-500">Prompt</dt>
+            <dd className="text-gray-300">{provenance.prompt || '—'}</dd>
+            <dt className="text-gray-500">Style</dt>
+            <dd className="text-gray-300">{[provenance.designOptions && describeDesignOptions(provenance.designOptions), provenance.stylePrompt].filter(Boolean).join(' · ') || '—'}</dd>
+            {provenance.instructions.length > 0 && (
+              <>
+                <dt className="text-gray-500">Edits</dt>
+                <dd className="text-gray-300">{provenance.instructions.join(' → ')}</dd>
+              </>
+            )}
+            <dt className="text-gray-500">Model</dt>
+            <dd className="text-gray-300 font-mono">{provenance.model}</dd>
+            <dt className="text-gray-500">Parent</dt>
+            <dd className="text-gray-300">{provenance.parent ? versionLabel(versions, provenance.parent.id) : 'None (original generation)'}</dd>
+          </dl>
+          {provenance.referenceImage && (
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              Reference <img src={provenance.referenceImage} alt="Style reference" className="w-10 h-10 rounded object-cover" />
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2 pt-1">
+            <button
+              onClick={() => onRestore(selected.id)}
+              disabled={selected.id === currentVersionId}
+              className="px-3 py-1.5 text-xs font-bold rounded-lg bg-amber-500 hover:bg-amber-400 text-gray-900 disabled:opacity-40"
+            >
+              Restore
+            </button>
+            <button onClick={() => onBranch(selected.id)} className="px-3 py-1.5 text-xs font-bold rounded-lg bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 flex items-center gap-1">
+              <SparklesIcon className="w-4 h-4" /> Branch From Here
+            </button>
+            <select
+              value={compareId ?? ''}
+              onChange={(e) => setCompareId(e.target.value || null)}
+              className="bg-gray-900/50 border border-amber-500/20 rounded-lg px-2 py-1 text-xs text-gray-200 focus:outline-none"
+            >
+              <option value="">Compare with...</option>
+              {versions.filter(v => v.id !== selected.id).map(v => <option key={v.id} value={v.id}>{versionLabel(versions, v.id)}</option>)}
+            </select>
+          </div>
+          {selected.id !== currentVersionId && (
+            <p className="text-xs text-gray-500">Restoring makes this the project's design and clears its stencils, which were traced from the current design.</p>
+          )}
+        </div>
+      )}
+
+      {selected && compared && (
+        <div className="relative bg-black/20 rounded-lg p-3">
+          <button onClick={() => setCompareId(null)} className="absolute top-2 right-2 text-gray-500 hover:text-white">
+            <XIcon className="w-4 h-4" />
+          </button>
+          <div className="grid grid-cols-2 gap-3">
+            {[selected, compared].map(version => (
+              <figure key={version.id}>
+                <img src={version.image} alt={versionLabel(versions, version.id)} className="w-full bg-white rounded object-contain" />
+                <figcaption className="mt-1 text-xs text-center text-gray-400">{versionLabel(versions, version.id)}</figcaption>
+              </figure>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionTimeline;
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { useSession } from '../../state/SessionStore';
+import { selectGeneratedDesigns } from '../../state/selectors';
+import { getImageModels } from '../../services/geminiService';
+import { getVersionTree, versionLabel } from '../../services/designVersions';
+import StylePresetPicker from '../StylePresetPicker';
+import PalettePicker from '../PalettePicker';
+import ImageUploader from '../ImageUploader';
+import GenerationSettingsPanel from '../GenerationSettingsPanel';
+import RefinePanel from '../RefinePanel';
+import { TaskErrorBanner } from '../AiErrorBanner';
+import { PaletteIcon, SearchIcon, SparklesIcon, TattooMachineIcon, UploadIcon, XCircleIcon } from '../icons';
+
+const DesignStep: React.FC = () => {
+  const { state, dispatch, tasks, handleSearchReference, handleSelectReferenceImage, handleGenerateTattoo, handleAddUploadedDesigns, handleSelectTattoo, setProjectDesign } = useSession();
+  const { designVersions, designOptions, selectedReferenceImage, refiningVersionId } = state;
+  const generatedDesigns = selectGeneratedDesigns(state);
+  const branchProject = state.projects.find(p => p.id === state.branchProjectId);
+
+  return (
+    <div className="animate-fade-in">
+      <h2 className="text-3xl font-bold text-center text-amber-400">1. Describe Your Tattoo</h2>
+      <p className="text-center text-gray-400 mt-2">Enter a prompt and let our AI generate unique designs for you.</p>
+
+      <div className="max-w-4xl mx-auto mt-8">
+        {/* Style Reference Section */}
+        <div className="bg-black/20 p-6 rounded-xl border border-amber-500/10 mb-6">
+          <h3 className="text-xl font-bold text-gray-200 flex items-center gap-2"><PaletteIcon className="w-6 h-6 text-amber-400"/> Find a Style Reference (Optional)</h3>
+          <p className="text-gray-400 mt-1 mb-4 text-sm">Search for an image to guide the AI's artistic style.</p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={state.referenceSearchQuery}
+              onChange={(e) => dispatch({ type: 'referenceSearchQueryChanged', query: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearchReference()}
+              placeholder="e.g., Japanese traditional art, geometric patterns"
+              className="flex-grow bg-gray-900/50 border border-amber-500/20 rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:outline-none transition-all"
+            />
+            <button onClick={handleSearchReference} disabled={tasks.reference.isPending} className="bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-3 px-6 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50">
+              <SearchIcon className="w-5 h-5"/> {tasks.reference.isPending ? 'Searching...' : 'Search'}
+            </button>
+          </div>
+          <TaskErrorBanner task={tasks.reference} />
+          <TaskErrorBanner task={tasks.style} />
+          {state.referenceImages.length > 0 && (
+            <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+              {state.referenceImages.map((img, index) => (
+                <div key={index} className="relative group cursor-pointer" onClick={() => handleSelectReferenceImage(img)}>
+                  <img src={img} alt={`Reference ${index + 1}`} className={`w-full h-full object-cover rounded-lg transition-all duration-300 ${selectedReferenceImage === img ? 'ring-4 ring-amber-500' : 'hover:opacity-80'}`} />
+                  {selectedReferenceImage === img && (
+                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center rounded-lg">
+                      <XCircleIcon className="w-8 h-8 text-white opacity-80 group-hover:opacity-100" />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Style Preset Section */}
+        <div className="bg-black/20 p-6 rounded-xl border border-amber-500/10 mb-6">
+          <h3 className="text-xl font-bold text-gray-200 flex items-center gap-2"><SparklesIcon className="w-6 h-6 text-amber-400"/> Choose a Style</h3>
+          <p className="text-gray-400 mt-1 mb-4 text-sm">Pick a tattoo style and how the design should be drawn. Leave the style unselected to describe it yourself.</p>
+          <StylePresetPicker options={designOptions} onChange={(options) => dispatch({ type: 'designOptionsChanged', designOptions: options })} />
+          {designOptions.colorMode === 'color' && (
+            <div className="mt-4">
+              <span className="block text-xs text-gray-400 mb-2">Ink Palette</span>
+              <PalettePicker
+                palette={designOptions.palette ?? []}
+                onChange={(palette) => dispatch({ type: 'designOptionsChanged', designOptions: { ...designOptions, palette } })}
+                referenceImage={selectedReferenceImage}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Prompt Section */}
+        <div className="bg-black/20 p-6 rounded-xl border border-amber-500/10">
+          <h3 className="text-xl font-bold text-gray-200 flex items-center gap-2"><TattooMachineIcon className="w-6 h-6 text-amber-400"/> Enter Your Design Prompt</h3>
+          <textarea
+            value={state.prompt}
+            onChange={(e) => dispatch({ type: 'promptChanged', prompt: e.target.value })}
+            placeholder="e.g., A majestic lion with a crown of thorns, geometric style"
+            rows={4}
+            className="w-full bg-gray-900/50 border border-amber-500/20 rounded-lg p-3 mt-4 focus:ring-2 focus:ring-amber-500 focus:outline-none transition-all"
+          />
+          {tasks.style.isPending ? (
+            <p className="text-sm text-gray-400 mt-2 animate-pulse">Reading the reference style...</p>
+          ) : state.styleDescription && <p className="text-sm text-amber-300 mt-2 bg-amber-500/10 p-2 rounded-md">Style identified: {state.styleDescription}</p>}
+          <GenerationSettingsPanel settings={state.generationSettings} onChange={(settings) => dispatch({ type: 'generationSettingsChanged', settings })} models={getImageModels()} />
+          <button onClick={handleGenerateTattoo} disabled={tasks.generate.isPending} className="mt-4 w-full bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-4 px-6 rounded-lg transition-colors text-lg flex items-center justify-center gap-2 disabled:opacity-50">
+            <TattooMachineIcon className="w-6 h-6" /> {tasks.generate.isPending ? 'Generating...' : 'Generate Designs'}
+          </button>
+          {tasks.generate.isPending && (
+            <button onClick={() => tasks.generate.cancel()} className="mt-2 w-full text-sm text-gray-400 hover:text-white">Cancel</button>
+          )}
+          <TaskErrorBanner task={tasks.generate} />
+        </div>
+
+        {/* Upload Section */}
+        <div className="bg-black/20 p-6 rounded-xl border border-amber-500/10 mt-6">
+          <h3 className="text-xl font-bold text-gray-200 flex items-center gap-2"><UploadIcon className="w-6 h-6 text-amber-400"/> Or Upload Your Own Design</h3>
+          <p className="text-gray-400 mt-1 mb-4 text-sm">Bring in a sketch, a finished piece or a shop's flash sheet and use it just like a generated design.</p>
+          <ImageUploader onAddDesigns={handleAddUploadedDesigns} />
+        </div>
+      </div>
+
+      {generatedDesigns.length > 0 && (
+        <div className="mt-12">
+          <h2 className="text-3xl font-bold text-center text-amber-400">2. Choose Your Favorite</h2>
+          <div className="mt-8 grid grid-cols-2 md:grid-cols-4 gap-6">
+            {generatedDesigns.map((version) => (
+              <div key={version.id} className="bg-gray-800/50 rounded-lg p-4 border border-amber-500/10 hover:border-amber-500/30 transition-all">
+                <img src={version.image} alt={versionLabel(designVersions, version.id)} className="w-full rounded-md" />
+                <button onClick={() => handleSelectTattoo(version.image, version.id)} className="mt-4 w-full bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-2 px-4 rounded-lg transition-colors">
+                  Select & Try On
+                </button>
+                <button onClick={() => dispatch({ type: 'refiningVersionChanged', versionId: version.id })} className="mt-2 w-full bg-black/20 hover:bg-black/40 text-gray-400 font-semibold py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2">
+                  <SparklesIcon className="w-4 h-4" /> Refine
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {refiningVersionId && (
+        <RefinePanel
+          versions={designVersions}
+          activeVersionId={refiningVersionId}
+          onSelectVersion={(versionId) => dispatch({ type: 'refiningVersionChanged', versionId })}
+          onRefine={(parent, request) => tasks.refine.mutate({ parent, request })}
+          isRefining={tasks.refine.isPending}
+          onCancelRefine={() => tasks.refine.cancel()}
+          error={tasks.refine.error ? tasks.refine.error.message : null}
+          onUseVersion={(version) => handleSelectTattoo(version.image, version.id)}
+          onSaveToProject={branchProject ? (version) => setProjectDesign(branchProject.id, version, getVersionTree(designVersions, version.id)) : undefined}
+          saveTargetName={branchProject?.artist.name}
+          onClose={() => dispatch({ type: 'refiningVersionChanged', versionId: null })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DesignStep;
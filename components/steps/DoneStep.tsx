@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { useSession } from '../../state/SessionStore';
+import type { Artist } from '../../types';
+import { SaveIcon } from '../icons';
+
+const DoneStep: React.FC = () => {
+  const { state, handleFindArtists, handleSaveProject, handleReset } = useSession();
+  const { finalImage } = state;
+  if (!finalImage) return null;
+
+  return (
+    <div className="animate-fade-in text-center">
+      <h2 className="text-3xl font-bold text-center text-amber-400">4. Your Finished Design</h2>
+      <div className="mt-8 max-w-2xl mx-auto bg-black/20 p-4 rounded-xl border border-amber-500/10">
+        <img src={finalImage} alt="Final tattoo design" className="w-full rounded-lg" />
+      </div>
+      <div className="mt-8 flex flex-col sm:flex-row items-center justify-center gap-4">
+        <button onClick={() => handleFindArtists()} className="bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-3 px-8 rounded-full text-lg">
+          Find an Artist
+        </button>
+        <button onClick={() => handleSaveProject({ name: 'Unassigned' } as Artist)} className="bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-3 px-8 rounded-full text-lg inline-flex items-center gap-2">
+          <SaveIcon className="w-5 h-5"/> Save Design
+        </button>
+        <button onClick={handleReset} className="bg-black/20 hover:bg-black/40 text-gray-400 font-bold py-3 px-8 rounded-full text-lg">
+          Start Over
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DoneStep;
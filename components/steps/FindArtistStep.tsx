@@ -0,0 +1,269 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { useSession } from '../../state/SessionStore';
+import { collectSpecialties, filterArtists } from '../../state/selectors';
+import type { ArtistAvailabilityFilter, ArtistSort } from '../../services/routes';
+import type { Artist } from '../../types';
+import Spinner from '../Spinner';
+import { TaskErrorBanner } from '../AiErrorBanner';
+import { ArtPlaceholderIcon, ExternalLinkIcon, FilterIcon, SearchIcon, SparklesIcon, XCircleIcon, XIcon } from '../icons';
+
+// Fix for default Leaflet icon not showing up
+delete (L.Icon.Default.prototype as any)._getIconUrl;
+L.Icon.Default.mergeOptions({
+  iconRetinaUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
+  iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
+  shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
+});
+
+const ArtistCard: React.FC<{
+  artist: Artist;
+  onContact: (artist: Artist) => void;
+  onSelect: () => void;
+  isSelected: boolean;
+}> = ({ artist, onContact, onSelect, isSelected }) => {
+  const handleCardClick = (e: React.MouseEvent) => {
+    if (e.target instanceof HTMLAnchorElement || e.target instanceof HTMLButtonElement || (e.target as HTMLElement).closest('button')) {
+        return;
+    }
+    onSelect();
+  };
+  
+  const availabilityStatus = artist.availability?.toLowerCase() || '';
+  const isAccepting = availabilityStatus.includes('accepting');
+
+  return (
+    <div 
+      className={`bg-gray-900/50 border rounded-xl flex flex-col transition-all duration-300 overflow-hidden cursor-pointer ${isSelected ? 'border-amber-500 shadow-lg shadow-amber-500/10' : 'border-amber-500/10 hover:border-amber-500/30'}`}
+      onClick={handleCardClick}
+      role="button"
+      tabIndex={0}
+      onKeyDown={(e) => { if ((e.key === 'Enter' || e.key === ' ')) handleCardClick(e as any); }}
+      aria-pressed={isSelected}
+    >
+      <div className="relative w-full aspect-[16/9] bg-black/20">
+        {artist.portfolio && artist.portfolio.length > 0 ? (
+          <img src={artist.portfolio[0]} alt={`${artist.name}'s work`} className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-gray-600">
+            <ArtPlaceholderIcon className="w-16 h-16"/>
+          </div>
+        )}
+         {artist.styleMatch && (
+            <div className="absolute top-2 left-2 flex items-center gap-1.5 bg-gradient-to-br from-purple-600 to-blue-500 text-white text-xs font-bold px-2.5 py-1 rounded-full border-2 border-white/20 shadow-lg">
+                <SparklesIcon className="w-4 h-4"/>
+                Style Match
+            </div>
+        )}
+        {artist.availability && (
+            <div className={`absolute top-2 right-2 flex items-center gap-1.5 bg-black/70 backdrop-blur-sm text-xs font-semibold px-2.5 py-1 rounded-full border border-white/10 ${isAccepting ? 'text-green-300' : 'text-yellow-300'}`}>
+                <span className={`w-2 h-2 rounded-full ${isAccepting ? 'bg-green-400' : 'bg-yellow-400'}`}></span>
+                {artist.availability}
+            </div>
+        )}
+      </div>
+      <div className="p-5 flex flex-col flex-grow">
+          <h3 className="text-xl font-bold text-amber-400">{artist.name}</h3>
+          {artist.description && <p className="text-gray-300 mt-1 text-sm flex-grow">{artist.description}</p>}
+          
+          {artist.specialties && artist.specialties.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+                {artist.specialties.map(spec => (
+                    <span key={spec} className="bg-amber-500/10 text-amber-300 text-xs font-semibold px-2.5 py-1 rounded-full">{spec}</span>
+                ))}
+            </div>
+          )}
+
+          <div className="mt-4 pt-4 border-t border-amber-500/10 flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={() => onContact(artist)}
+                className="w-full sm:w-auto flex-1 bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-3 px-5 rounded-lg transition-colors text-sm"
+              >
+                Contact Artist
+              </button>
+              {artist.portfolioUrl && (
+                <a
+                  href={artist.portfolioUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="w-full sm:w-auto flex-1 inline-flex items-center justify-center gap-2 bg-black/20 hover:bg-black/40 text-amber-300 font-bold py-3 px-5 rounded-lg transition-colors text-sm"
+                >
+                  Full Portfolio <ExternalLinkIcon className="w-4 h-4" />
+                </a>
+              )}
+          </div>
+      </div>
+    </div>
+  );
+};
+
+const MapUpdater: React.FC<{ center: [number, number] | null }> = ({ center }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (center) {
+      map.flyTo(center, 12);
+    }
+  }, [center, map]);
+  return null;
+};
+const FindArtistStep: React.FC = () => {
+  const { state, dispatch, tasks, artistQuery, updateArtistQuery, handleFindArtists, handleSaveProject } = useSession();
+  const { finalImage, selectedTattoo, mapCenter, selectedArtistId, bookingArtist, artistSearchSources } = state;
+  const filteredArtists = useMemo(() => filterArtists(state.artists, artistQuery), [state.artists, artistQuery]);
+  const allSpecialties = useMemo(() => collectSpecialties(state.artists), [state.artists]);
+
+  return (
+    <div className="animate-fade-in">
+      <div className="text-center">
+        <h2 className="text-3xl font-bold text-amber-400">Find Your Perfect Tattoo Artist</h2>
+        <p className="text-gray-400 mt-2 max-w-2xl mx-auto">{finalImage || selectedTattoo ? 'We can use your design to find artists who specialize in this style.' : 'Search for artists by location and specialty.'}</p>
+      </div>
+
+      <div className="max-w-7xl mx-auto mt-8">
+        <div className="bg-black/20 p-4 rounded-xl border border-amber-500/10 mb-6 flex flex-col md:flex-row items-center gap-4">
+          <div className="flex-grow w-full flex items-center gap-2 bg-gray-900/50 border border-amber-500/20 rounded-lg pr-3">
+            <input
+              type="text"
+              value={state.locationSearch}
+              onChange={(e) => dispatch({ type: 'locationSearchChanged', location: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && handleFindArtists()}
+              placeholder="Enter a city or address"
+              className="flex-grow bg-transparent p-3 focus:outline-none"
+            />
+            <button onClick={() => handleFindArtists()} className="text-amber-400 hover:text-amber-300">
+              <SearchIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="flex-grow w-full flex items-center gap-2 bg-gray-900/50 border border-amber-500/20 rounded-lg p-3">
+            <FilterIcon className="w-5 h-5 text-gray-500"/>
+            <select onChange={(e) => updateArtistQuery({ sort: e.target.value as ArtistSort })} value={artistQuery.sort} className="bg-transparent focus:outline-none flex-grow">
+              <option value="default">Sort by Default</option>
+              <option value="styleMatch">Sort by Style Match</option>
+            </select>
+          </div>
+
+          <div className="flex-grow w-full flex items-center gap-2 bg-gray-900/50 border border-amber-500/20 rounded-lg p-3">
+            <select onChange={(e) => updateArtistQuery({ availability: e.target.value as ArtistAvailabilityFilter })} value={artistQuery.availability} className="bg-transparent focus:outline-none flex-grow">
+              <option value="all">All Availabilities</option>
+              <option value="accepting">Accepting New Clients</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <span className="text-sm font-semibold text-gray-400">Filter by Specialty:</span>
+          {allSpecialties.map(spec => (
+            <button
+              key={spec}
+              onClick={() => {
+                const specialties = artistQuery.specialties;
+                updateArtistQuery({ specialties: specialties.includes(spec) ? specialties.filter(s => s !== spec) : [...specialties, spec] });
+              }}
+              className={`px-3 py-1 text-sm rounded-full transition-colors ${artistQuery.specialties.includes(spec) ? 'bg-amber-500 text-gray-900 font-bold' : 'bg-amber-500/10 text-amber-300 hover:bg-amber-500/20'}`}
+            >
+              {spec}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="h-[600px] lg:h-auto rounded-xl overflow-hidden border border-amber-500/10">
+            <MapContainer center={mapCenter || [40.7128, -74.0060]} zoom={12} scrollWheelZoom={true} className="h-full w-full bg-gray-800">
+              <TileLayer
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+              />
+              <MapUpdater center={mapCenter} />
+              {filteredArtists.map((artist, idx) => Number.isFinite(artist.latitude) && Number.isFinite(artist.longitude) && (
+                <Marker
+                  key={`${artist.name}-${idx}`}
+                  position={[artist.latitude!, artist.longitude!]}
+                  eventHandlers={{
+                    click: () => {
+                      document.getElementById(`artist-card-${idx}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+                      dispatch({ type: 'artistSelected', artistId: `${artist.name}-${idx}` });
+                    }
+                  }}
+                >
+                  <Popup>{artist.name}</Popup>
+                </Marker>
+              ))}
+            </MapContainer>
+          </div>
+
+          <div className="max-h-[600px] lg:max-h-[800px] overflow-y-auto pr-2 space-y-6">
+            <TaskErrorBanner task={tasks.artists} />
+            {tasks.artists.isPending ? <Spinner/> : (
+              filteredArtists.length > 0 ? (
+                filteredArtists.map((artist, idx) => (
+                  <div id={`artist-card-${idx}`} key={`${artist.name}-${idx}`}>
+                    <ArtistCard
+                      artist={artist}
+                      onContact={(artist) => dispatch({ type: 'bookingArtistChanged', artist })}
+                      onSelect={() => dispatch({
+                        type: 'artistSelected',
+                        artistId: `${artist.name}-${idx}`,
+                        center: Number.isFinite(artist.latitude) && Number.isFinite(artist.longitude) ? [artist.latitude!, artist.longitude!] : undefined,
+                      })}
+                      isSelected={selectedArtistId === `${artist.name}-${idx}`}
+                    />
+                  </div>
+                ))
+              ) : (
+                state.searchedForArtists && (
+                  <div className="text-center py-16 bg-black/20 rounded-xl">
+                    <XCircleIcon className="w-16 h-16 text-gray-600 mx-auto mb-4"/>
+                    <h3 className="text-xl font-bold text-gray-300">No Artists Found</h3>
+                    <p className="text-gray-500 mt-2">Try adjusting your search location or filters.</p>
+                  </div>
+                )
+              )
+            )}
+            {artistSearchSources.length > 0 && (
+              <div className="text-xs text-gray-500 mt-4">
+                <h4 className="font-bold">Sources:</h4>
+                <ul className="list-disc list-inside">
+                  {artistSearchSources.map(source => (
+                    <li key={source.uri}><a href={source.uri} target="_blank" rel="noopener noreferrer" className="hover:text-amber-400">{source.title}</a></li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {bookingArtist && (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fade-in">
+          <div className="bg-gray-900 border border-amber-500/20 p-8 rounded-lg max-w-lg w-full relative">
+            <button onClick={() => dispatch({ type: 'bookingArtistChanged', artist: null })} className="absolute top-4 right-4 text-gray-500 hover:text-white">
+              <XIcon className="w-6 h-6"/>
+            </button>
+            <h2 className="text-2xl font-bold text-amber-400">Contact {bookingArtist.name}</h2>
+            <p className="text-gray-400 mt-2">Your design will be sent along with your message.</p>
+            <div className="mt-6">
+              <img src={finalImage || selectedTattoo || undefined} alt="Tattoo design to send" className="w-full max-w-xs mx-auto rounded-lg" />
+              <button
+                onClick={() => {
+                  handleSaveProject(bookingArtist);
+                  dispatch({ type: 'bookingArtistChanged', artist: null });
+                }}
+                className="mt-6 w-full bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-3 px-6 rounded-lg transition-colors"
+              >
+                Send Consultation Request
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindArtistStep;
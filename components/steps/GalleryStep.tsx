@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { useSession } from '../../state/SessionStore';
+import { filterProjectsByStatus } from '../../state/selectors';
+import { CONTRACT_STATUSES } from '../../services/contractService';
+import { ContractStatusBadge } from '../ContractPanel';
+import ProjectModal from './ProjectModal';
+import { GalleryIcon, SaveIcon, UploadIcon } from '../icons';
+
+const GalleryStep: React.FC = () => {
+  const { state, dispatch, viewingProject, openProject, handleExportProjects, handleImportBundle } = useSession();
+  const { projects, galleryStatusFilter, isSelectingProjects, selectedProjectIds } = state;
+  const galleryProjects = useMemo(() => filterProjectsByStatus(projects, galleryStatusFilter), [projects, galleryStatusFilter]);
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handleImportBundle(file);
+  };
+
+  const toggleProjectSelection = (projectId: string) => dispatch({ type: 'projectSelectionToggled', projectId });
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+        <h2 className="text-3xl font-bold text-amber-400">My Gallery</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-semibold py-2 px-4 rounded-lg transition-colors cursor-pointer inline-flex items-center gap-2 text-sm">
+            <UploadIcon className="w-5 h-5"/> Import Bundle
+            <input type="file" accept=".zip,application/zip" onChange={handleImportChange} className="hidden" />
+          </label>
+          {projects.length > 0 && (isSelectingProjects ? (
+            <>
+              <button
+                onClick={() => handleExportProjects(projects.filter(p => selectedProjectIds.includes(p.id)))}
+                disabled={selectedProjectIds.length === 0}
+                className="bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-2 px-4 rounded-lg transition-colors inline-flex items-center gap-2 text-sm disabled:opacity-50"
+              >
+                <SaveIcon className="w-5 h-5"/> Export Selected ({selectedProjectIds.length})
+              </button>
+              <button onClick={() => dispatch({ type: 'projectSelectionEnded' })} className="bg-black/20 hover:bg-black/40 text-gray-400 font-semibold py-2 px-4 rounded-lg transition-colors text-sm">
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => dispatch({ type: 'projectSelectionStarted' })} className="bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-semibold py-2 px-4 rounded-lg transition-colors text-sm">
+                Select
+              </button>
+              <button onClick={() => handleExportProjects(projects)} className="bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-semibold py-2 px-4 rounded-lg transition-colors inline-flex items-center gap-2 text-sm">
+                <SaveIcon className="w-5 h-5"/> Export All
+              </button>
+            </>
+          ))}
+        </div>
+      </div>
+      {projects.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <span className="text-sm font-semibold text-gray-400">Filter by Status:</span>
+          {(['all', ...CONTRACT_STATUSES] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => dispatch({ type: 'galleryFilterChanged', status })}
+              className={`px-3 py-1 text-sm rounded-full transition-colors ${galleryStatusFilter === status ? 'bg-amber-500 text-gray-900 font-bold' : 'bg-amber-500/10 text-amber-300 hover:bg-amber-500/20'}`}
+            >
+              {status === 'all' ? 'All' : status} ({filterProjectsByStatus(projects, status).length})
+            </button>
+          ))}
+        </div>
+      )}
+      {projects.length === 0 ? (
+        <div className="text-center py-20 bg-black/20 rounded-xl border border-amber-500/10">
+          <GalleryIcon className="w-20 h-20 text-gray-600 mx-auto mb-4"/>
+          <h3 className="text-xl font-bold text-gray-300">Your gallery is empty.</h3>
+          <p className="text-gray-500 mt-2">Saved designs and artist conversations will appear here.</p>
+        </div>
+      ) : galleryProjects.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">No projects are currently {galleryStatusFilter}.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+          {galleryProjects.map(proj => (
+            <div key={proj.id} className={`bg-gray-800/50 rounded-lg p-4 border transition-all cursor-pointer group ${isSelectingProjects && selectedProjectIds.includes(proj.id) ? 'border-amber-500' : 'border-amber-500/10 hover:border-amber-500/30'}`} onClick={() => isSelectingProjects ? toggleProjectSelection(proj.id) : openProject(proj.id)}>
+              <div className="relative">
+                <img src={proj.designImage} alt="Saved tattoo design" className="w-full rounded-md aspect-square object-cover" />
+                <ContractStatusBadge status={proj.contract.status} className="absolute top-2 left-2 backdrop-blur-sm" />
+                {isSelectingProjects && (
+                  <input
+                    type="checkbox"
+                    checked={selectedProjectIds.includes(proj.id)}
+                    onChange={() => toggleProjectSelection(proj.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="absolute top-2 right-2 w-5 h-5 accent-amber-500"
+                    aria-label="Select project"
+                  />
+                )}
+              </div>
+              <div className="mt-3">
+                <p className="text-lg font-bold text-amber-400 truncate">{proj.artist.name !== 'Unassigned' ? proj.artist.name : 'Saved Design'}</p>
+                <p className="text-xs text-gray-500">{new Date(proj.savedAt).toLocaleDateString()}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {viewingProject && <ProjectModal project={viewingProject} />}
+    </div>
+  );
+};
+
+export default GalleryStep;
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { useSession } from '../../state/SessionStore';
+import { getInkPalette } from '../../services/palette';
+import { resolveProvenance } from '../../services/designVersions';
+import { svgToDataURL } from '../../services/stencilVectorizer';
+import type { Project } from '../../types';
+import ContractPanel from '../ContractPanel';
+import StencilPanel from '../StencilPanel';
+import PrintPanel from '../PrintPanel';
+import VersionTimeline from '../VersionTimeline';
+import InkAreaBreakdown from '../InkAreaBreakdown';
+import { TaskErrorBanner } from '../AiErrorBanner';
+import { MoveIcon, SaveIcon, SendIcon, TrashIcon, XIcon } from '../icons';
+
+interface ProjectModalProps {
+  project: Project;
+}
+
+// A saved project opened from the gallery: its design, stencil, contract and conversation with the artist.
+const ProjectModal: React.FC<ProjectModalProps> = ({ project }) => {
+  const {
+    state, dispatch, tasks, isTaskRunning, goToStep, updateProject,
+    handleRestoreVersion, handleBranchFromVersion, handleReopenTryOn, handleExportProjects, handleDeleteProject, handleSendChatMessage,
+  } = useSession();
+  const { streamingReply } = state;
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  const palette = project.versions && project.currentVersionId
+    ? getInkPalette(resolveProvenance(project.versions, project.currentVersionId)?.designOptions)
+    : null;
+  const isReplying = tasks.chat.isPending && tasks.chat.variables?.project.id === project.id;
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [project.conversation.length, streamingReply?.text]);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fade-in">
+      <div className="bg-gray-900 border border-amber-500/20 rounded-lg max-w-4xl w-full h-[90vh] flex flex-col relative">
+        <button onClick={() => goToStep('GALLERY')} className="absolute top-4 right-4 text-gray-500 hover:text-white z-20">
+          <XIcon className="w-6 h-6"/>
+        </button>
+        <div className="p-6 border-b border-amber-500/10">
+          <h2 className="text-2xl font-bold text-amber-400">Project with {project.artist.name}</h2>
+        </div>
+        <div className="flex-grow flex overflow-hidden">
+          <div className="w-1/2 p-6 flex flex-col border-r border-amber-500/10 overflow-y-auto">
+            <div className="flex-shrink-0">
+              <img src={project.designImage} className="w-full rounded-lg"/>
+              {project.previewImage && (
+                <img src={project.previewImage} alt="Try-on preview" className="w-full rounded-lg mt-4"/>
+              )}
+              <StencilPanel
+                key={`${project.id}:${project.currentVersionId ?? ''}`}
+                designImage={project.designImage}
+                stencilSvg={project.stencilSvg}
+                stencilOptions={project.stencilOptions}
+                aiStencilImage={project.stencilImage}
+                onSaveVector={(stencilSvg, stencilOptions) => updateProject(project.id, { stencilSvg, stencilOptions })}
+                onGenerateAi={() => tasks.stencil.mutate({ projectId: project.id, design: project.designImage })}
+                isGeneratingAi={isTaskRunning('stencil', vars => vars.projectId === project.id)}
+                fileName={`inkgenius-${project.id}`}
+              />
+              {tasks.stencil.variables?.projectId === project.id && <TaskErrorBanner task={tasks.stencil} />}
+            </div>
+            {palette && (
+              <div className="mt-6 pt-6 border-t border-amber-500/10">
+                <h3 className="text-lg font-bold mb-3">Ink Breakdown</h3>
+                <InkAreaBreakdown image={project.designImage} palette={palette} />
+              </div>
+            )}
+            <PrintPanel
+              stencilSrc={project.stencilSvg ? svgToDataURL(project.stencilSvg) : project.stencilImage ?? null}
+              title={`Project with ${project.artist.name}`}
+              artistName={project.artist.name}
+              fileName={`inkgenius-${project.id}`}
+            />
+            <div className="mt-6 pt-6 border-t border-amber-500/10">
+              <h3 className="text-lg font-bold mb-4">Version History</h3>
+              <VersionTimeline
+                key={project.id}
+                versions={project.versions ?? []}
+                currentVersionId={project.currentVersionId}
+                onRestore={(versionId) => handleRestoreVersion(project, versionId)}
+                onBranch={(versionId) => handleBranchFromVersion(project, versionId)}
+              />
+            </div>
+            <div className="mt-6 pt-6 border-t border-amber-500/10">
+              <h3 className="text-lg font-bold mb-4">Contract</h3>
+              <ContractPanel contract={project.contract} onChange={(contract) => updateProject(project.id, { contract })} />
+            </div>
+            <div className="mt-auto pt-6 space-y-2">
+              {project.tryOnLayout && (
+                <button
+                  onClick={() => handleReopenTryOn(project)}
+                  className="w-full bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-2 rounded-lg flex items-center justify-center gap-2"
+                >
+                  <MoveIcon className="w-5 h-5"/> Reopen Try-On
+                </button>
+              )}
+              <button
+                onClick={() => handleExportProjects([project])}
+                className="w-full bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-bold py-2 rounded-lg flex items-center justify-center gap-2"
+              >
+                <SaveIcon className="w-5 h-5"/> Export Project
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm('Are you sure you want to delete this project? This cannot be undone.')) {
+                    handleDeleteProject(project.id);
+                  }
+                }}
+                className="w-full text-red-400 hover:bg-red-500/10 py-2 rounded-lg flex items-center justify-center gap-2"
+              >
+                <TrashIcon className="w-5 h-5"/> Delete Project
+              </button>
+            </div>
+          </div>
+          <div className="w-1/2 flex flex-col">
+            <div className="p-6 flex-grow flex flex-col bg-black/20">
+              <h3 className="text-lg font-bold mb-4">Conversation</h3>
+              <div className="flex-grow bg-gray-900/50 rounded-lg p-4 overflow-y-auto mb-4 space-y-4">
+                {project.conversation.map((msg, idx) => (
+                  <div key={idx} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-xs lg:max-w-md px-4 py-2 rounded-xl ${msg.sender === 'user' ? 'bg-amber-600 text-white' : 'bg-gray-700 text-gray-200'}`}>
+                      <p>{msg.text}</p>
+                    </div>
+                  </div>
+                ))}
+                {streamingReply?.projectId === project.id && (
+                  <div className="flex justify-start">
+                    <div className="max-w-xs lg:max-w-md px-4 py-2 rounded-xl bg-gray-700 text-gray-200">
+                      <p>{streamingReply.text || <span className="text-gray-400 animate-pulse">{project.artist.name} is typing...</span>}</p>
+                    </div>
+                  </div>
+                )}
+                {tasks.chat.error && tasks.chat.variables?.project.id === project.id && (
+                  <p className="text-sm text-red-400 text-center">{tasks.chat.error.message}</p>
+                )}
+                <div ref={chatEndRef} />
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={state.chatDraft}
+                  onChange={(e) => dispatch({ type: 'chatDraftChanged', text: e.target.value })}
+                  placeholder="Type your message..."
+                  className="flex-grow bg-gray-800 border border-amber-500/20 rounded-lg p-3 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                  onKeyDown={(e) => e.key === 'Enter' && handleSendChatMessage()}
+                />
+                {isReplying ? (
+                  <button onClick={() => tasks.chat.cancel()} className="p-3 bg-black/40 hover:bg-black/60 rounded-lg text-gray-300" aria-label="Stop reply"><XIcon className="w-6 h-6"/></button>
+                ) : (
+                  <button onClick={handleSendChatMessage} disabled={tasks.chat.isPending} className="p-3 bg-amber-500 rounded-lg text-gray-900 disabled:opacity-50"><SendIcon className="w-6 h-6"/></button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectModal;
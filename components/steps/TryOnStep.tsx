@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import type Konva from 'konva';
+import { useSession } from '../../state/SessionStore';
+import { selectTattooLayers } from '../../state/selectors';
+import { dataURLtoFile } from '../../services/imageUtils';
+import { versionLabel } from '../../services/designVersions';
+import EditorCanvas, { exportStageImage } from '../EditorCanvas';
+import Toolbar, { DesignSource } from '../Toolbar';
+import ToolOptions from '../ToolOptions';
+import CropPanel from '../CropPanel';
+import AdjustmentPanel from '../AdjustmentPanel';
+import { TaskErrorBanner } from '../AiErrorBanner';
+import { ImageIcon, MoveIcon, RedoIcon, SaveIcon, UndoIcon, UploadIcon } from '../icons';
+
+const TryOnStep: React.FC = () => {
+  const { state, dispatch, tasks, goToStep, handleAddDesignLayer, handleChangeBackgroundTolerance, handleApplyPhotoAdjustments, handleSaveTryOnLayout } = useSession();
+  const { tryOnImage, tryOnSourceImage, tryOnPhotoSize, isAdjustingPhoto, selectedLayerId, isEditingWarp, skinBlend, designVersions, projects, tryOnProjectId } = state;
+  const tattooLayers = selectTattooLayers(state);
+  const canUndo = state.layerHistory.past.length > 0;
+  const canRedo = state.layerHistory.future.length > 0;
+  const stageRef = useRef<Konva.Stage>(null);
+
+  useEffect(() => {
+    if (isAdjustingPhoto) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        dispatch({ type: 'layersUndone' });
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        dispatch({ type: 'layersRedone' });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isAdjustingPhoto, dispatch]);
+
+  const handleTryOnImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const reader = new FileReader();
+      reader.onload = (event) => dispatch({ type: 'tryOnPhotoChosen', image: event.target?.result as string });
+      reader.readAsDataURL(e.target.files[0]);
+      e.target.value = '';
+    }
+  };
+
+  const handleBlendTattoo = () => {
+    if (stageRef.current) {
+      const dataURL = exportStageImage(stageRef.current);
+      tasks.blend.mutate(dataURLtoFile(dataURL, 'tattoo_try_on.png'));
+    }
+  };
+
+  const handleUseSkinPreview = () => {
+    if (stageRef.current) {
+      dispatch({ type: 'finalImageCreated', image: exportStageImage(stageRef.current) });
+      goToStep('DONE');
+    }
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <h2 className="text-3xl font-bold text-center text-amber-400">3. Virtual Try-On</h2>
+      {isAdjustingPhoto && tryOnSourceImage ? (
+        <CropPanel
+          image={tryOnSourceImage}
+          onApply={handleApplyPhotoAdjustments}
+          onCancel={() => dispatch({ type: 'photoAdjustmentCancelled' })}
+        />
+      ) : !tryOnImage || !tryOnPhotoSize ? (
+        <div className="max-w-xl mx-auto mt-8 text-center bg-black/20 p-8 rounded-xl border border-amber-500/10">
+          <ImageIcon className="w-20 h-20 text-gray-600 mx-auto mb-4"/>
+          <h3 className="text-xl font-bold">Upload a Photo of Yourself</h3>
+          <p className="text-gray-400 mt-2 mb-6">Choose a clear, well-lit photo of the area where you want the tattoo.</p>
+          <label className="bg-amber-500 hover:bg-amber-400 text-gray-900 font-bold py-3 px-6 rounded-lg transition-colors cursor-pointer inline-flex items-center gap-2">
+            <UploadIcon className="w-6 h-6"/>
+            Upload Photo
+            <input type="file" accept="image/*" onChange={handleTryOnImageUpload} className="hidden" />
+          </label>
+        </div>
+      ) : (
+        <div className="mt-8">
+          <div className="max-w-7xl mx-auto flex flex-col lg:flex-row items-start justify-center gap-6">
+            <div className="w-full min-w-0 flex-grow flex flex-col items-center gap-4">
+              <div className="w-full bg-black/30 p-2 rounded-lg border border-amber-500/10 relative">
+                <div className="absolute top-2 left-2 bg-black/70 text-white px-3 py-1 text-sm rounded-full flex items-center gap-2 z-10">
+                  <MoveIcon className="w-5 h-5"/> {isEditingWarp ? 'Drag the mesh points to bend the design' : 'Drag, resize, and rotate the tattoo'}
+                </div>
+                <EditorCanvas
+                  stageRef={stageRef}
+                  backgroundImage={tryOnImage}
+                  sceneWidth={tryOnPhotoSize.width}
+                  sceneHeight={tryOnPhotoSize.height}
+                  layers={tattooLayers}
+                  selectedLayerId={selectedLayerId}
+                  isEditingWarp={isEditingWarp}
+                  skinBlend={skinBlend}
+                  onSelectLayer={(layerId) => dispatch({ type: 'layerSelected', layerId })}
+                  onChangeLayer={(layerId, updates) => dispatch({ type: 'layerChanged', layerId, updates })}
+                />
+              </div>
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                <button onClick={() => dispatch({ type: 'layersUndone' })} disabled={!canUndo} title="Undo (Ctrl+Z)" className="bg-black/20 hover:bg-black/40 text-gray-400 p-2 rounded-lg transition-colors disabled:opacity-30">
+                  <UndoIcon className="w-5 h-5"/>
+                </button>
+                <button onClick={() => dispatch({ type: 'layersRedone' })} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="bg-black/20 hover:bg-black/40 text-gray-400 p-2 rounded-lg transition-colors disabled:opacity-30">
+                  <RedoIcon className="w-5 h-5"/>
+                </button>
+                <button onClick={() => dispatch({ type: 'photoAdjustmentStarted' })} className="bg-black/20 hover:bg-black/40 text-gray-400 font-semibold py-2 px-5 rounded-lg transition-colors text-sm">
+                  Crop &amp; Rotate Photo
+                </button>
+                {tryOnProjectId && projects.some(p => p.id === tryOnProjectId) && (
+                  <button onClick={handleSaveTryOnLayout} className="bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 font-semibold py-2 px-5 rounded-lg transition-colors text-sm inline-flex items-center gap-2">
+                    <SaveIcon className="w-4 h-4"/> Update Saved Layout
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="w-full lg:w-80 flex-shrink-0 space-y-4">
+              <AdjustmentPanel
+                settings={skinBlend}
+                onChange={(settings) => dispatch({ type: 'skinBlendChanged', skinBlend: settings })}
+                onUsePreview={handleUseSkinPreview}
+                onPhotorealBlend={handleBlendTattoo}
+                isBlending={tasks.blend.isPending}
+                disabled={!tattooLayers.some(layer => layer.visible)}
+              />
+              <TaskErrorBanner task={tasks.blend} />
+              <Toolbar
+                generatedDesigns={designVersions.map(version => ({ id: version.id, image: version.image, name: versionLabel(designVersions, version.id) }))}
+                galleryDesigns={projects.map(project => ({ id: project.id, image: project.designImage, transparentImage: project.designImageTransparent, name: project.artist.name !== 'Unassigned' ? project.artist.name : 'Saved Design' }))}
+                onAddDesign={(design: DesignSource) => handleAddDesignLayer(design.image, design.name, tryOnPhotoSize, design.transparentImage)}
+              />
+              <ToolOptions
+                layers={tattooLayers}
+                selectedLayerId={selectedLayerId}
+                onSelectLayer={(layerId) => dispatch({ type: 'layerSelected', layerId })}
+                onChangeLayer={(layerId, updates, coalesceKey) => dispatch({ type: 'layerChanged', layerId, updates, coalesceKey })}
+                onMoveLayer={(layerId, direction) => dispatch({ type: 'layerMoved', layerId, direction })}
+                onDeleteLayer={(layerId) => dispatch({ type: 'layerRemoved', layerId })}
+                isEditingWarp={isEditingWarp}
+                onToggleWarpEdit={() => dispatch({ type: 'warpEditToggled' })}
+                onChangeBackgroundTolerance={handleChangeBackgroundTolerance}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TryOnStep;
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useCallback, useRef } from 'react';
+import { useMutation, UseMutationOptions } from '@tanstack/react-query';
+
+type CancellableMutationOptions<TData, TVariables> = Omit<UseMutationOptions<TData, Error, TVariables>, 'mutationFn'> & {
+    mutationFn: (variables: TVariables, signal: AbortSignal) => Promise<TData>;
+};
+
+// A mutation whose function receives an AbortSignal. Runs may overlap; each
+// is identified by the variables it was started with, so a single run can be
+// cancelled without touching the others.
+export const useCancellableMutation = <TData, TVariables>(options: CancellableMutationOptions<TData, TVariables>) => {
+    const controllersRef = useRef(new Map<TVariables, AbortController>());
+
+    const mutation = useMutation<TData, Error, TVariables>({
+        ...options,
+        mutationFn: async (variables) => {
+            const controller = new AbortController();
+            controllersRef.current.set(variables, controller);
+            try {
+                return await options.mutationFn(variables, controller.signal);
+            } finally {
+                if (controllersRef.current.get(variables) === controller) controllersRef.current.delete(variables);
+            }
+        },
+    });
+
+    const { reset, mutate, variables } = mutation;
+    // Forgets the run's status here if it is the one this hook reports, so a
+    // cancelled or dismissed run never lingers as an error.
+    const clear = useCallback((runVariables: TVariables) => {
+        if (runVariables === variables) reset();
+    }, [reset, variables]);
+    // Aborts the run started with `runVariables`, or every run when omitted.
+    const cancel = useCallback((runVariables?: TVariables) => {
+        if (runVariables === undefined) {
+            controllersRef.current.forEach(controller => controller.abort());
+            controllersRef.current.clear();
+            reset();
+            return;
+        }
+        controllersRef.current.get(runVariables)?.abort();
+        controllersRef.current.delete(runVariables);
+        clear(runVariables);
+    }, [reset, clear]);
+    // Runs the last request again, e.g. after a transient error.
+    const retry = useCallback(() => {
+        if (variables !== undefined) mutate(variables);
+    }, [mutate, variables]);
+
+    return { ...mutation, cancel, clear, retry };
+};
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useRef, useState } from 'react';
+
+// Tracks the rendered width of an element so canvases can follow the viewport.
+export const useElementWidth = <T extends HTMLElement>() => {
+    const ref = useRef<T>(null);
+    const [width, setWidth] = useState(0);
+
+    useEffect(() => {
+        const element = ref.current;
+        if (!element) return;
+        setWidth(element.clientWidth);
+        const observer = new ResizeObserver(entries => {
+            setWidth(entries[0].contentRect.width);
+        });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    return [ref, width] as const;
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useMutationState } from '@tanstack/react-query';
+import type { MutationStatus } from '@tanstack/react-query';
+
+// Every AI job runs as a mutation keyed `['task', kind]`, so the mutation
+// cache doubles as the list of background tasks: several can run at once and
+// each keeps its own status after the component that started it is gone.
+
+export type TaskKind = 'generate' | 'refine' | 'reference' | 'style' | 'blend' | 'stencil' | 'artists' | 'chat';
+
+export const TASK_LABELS: Record<TaskKind, string> = {
+    generate: 'Generating designs',
+    refine: 'Refining design',
+    reference: 'Finding style references',
+    style: 'Reading reference style',
+    blend: 'Blending tattoo onto photo',
+    stencil: 'Tracing AI stencil',
+    artists: 'Searching for artists',
+    chat: 'Artist reply',
+};
+
+export const taskMutationKey = (kind: TaskKind) => ['task', kind] as const;
+
+export interface Task {
+    id: number;
+    kind: TaskKind;
+    status: MutationStatus;
+    // The variables the job was started with, to retry it or find where its result belongs.
+    variables: unknown;
+    error: Error | null;
+    submittedAt: number;
+}
+
+export const useTasks = (): Task[] => useMutationState({
+    filters: { mutationKey: ['task'] },
+    select: (mutation): Task => ({
+        id: mutation.mutationId,
+        kind: mutation.options.mutationKey?.[1] as TaskKind,
+        status: mutation.state.status,
+        variables: mutation.state.variables,
+        error: mutation.state.error,
+        submittedAt: mutation.state.submittedAt,
+    }),
+});
@@ -7,6 +7,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { BrowserRouter } from 'react-router';
+import { SessionProvider } from './state/SessionStore';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -18,6 +20,10 @@ const queryClient = new QueryClient();
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <QueryClientProvider client={queryClient}>
-    <App />
+    <BrowserRouter>
+      <SessionProvider>
+        <App />
+      </SessionProvider>
+    </BrowserRouter>
   </QueryClientProvider>
 );
\ No newline at end of file
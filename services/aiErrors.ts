@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Every failure from an AI call reaches the UI as an `AiError` with a kind,
+// so the app can say what went wrong and whether trying again could help.
+// Provider adapters classify their SDK's errors; anything they miss is
+// classified here from the generic error shapes.
+
+export type AiErrorKind = 'safety' | 'quota' | 'network' | 'parse' | 'no_image' | 'cancelled' | 'unknown';
+
+export class AiError extends Error {
+    readonly kind: AiErrorKind;
+
+    constructor(kind: AiErrorKind, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'AiError';
+        this.kind = kind;
+    }
+}
+
+export const AI_ERROR_TITLES: Record<AiErrorKind, string> = {
+    safety: 'Blocked by safety filters',
+    quota: 'Rate limit reached',
+    network: 'Connection problem',
+    parse: 'Unreadable response',
+    no_image: 'No image returned',
+    cancelled: 'Cancelled',
+    unknown: 'Something went wrong',
+};
+
+export const AI_ERROR_HINTS: Record<AiErrorKind, string> = {
+    safety: 'Try rewording the request or using a different image.',
+    quota: 'Too many requests right now. Wait a minute and try again.',
+    network: 'Check your connection and try again.',
+    parse: 'The AI answered in an unexpected format. Trying again usually helps.',
+    no_image: 'Try again, or adjust the request.',
+    cancelled: '',
+    unknown: 'Try again in a moment.',
+};
+
+// Quota and network failures are usually transient; the rest would fail the same way again.
+export const isRetryableAiError = (error: unknown): boolean =>
+    error instanceof AiError && (error.kind === 'quota' || error.kind === 'network');
+
+export const isAbortError = (error: unknown): boolean =>
+    (error instanceof DOMException && error.name === 'AbortError') || (error instanceof AiError && error.kind === 'cancelled');
+
+export const toAiError = (error: unknown, context?: string): AiError => {
+    const prefix = context ? `${context} ` : '';
+    if (error instanceof AiError) {
+        return context ? new AiError(error.kind, `${prefix}${error.message}`, error.cause ?? error) : error;
+    }
+    if (isAbortError(error)) {
+        return new AiError('cancelled', 'The request was cancelled.', error);
+    }
+    // fetch() rejects with a TypeError when the network itself fails.
+    if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+        return new AiError('network', `${prefix}The AI service could not be reached.`, error);
+    }
+    if (error instanceof SyntaxError) {
+        return new AiError('parse', `${prefix}The AI returned a response that could not be understood.`, error);
+    }
+    const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return new AiError('unknown', `${prefix}${message}`, error);
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new AiError('cancelled', 'The request was cancelled.');
+};
+
+// Resolves after `ms`, or rejects as cancelled as soon as the signal aborts.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AiError('cancelled', 'The request was cancelled.'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    retries?: number;
+    baseDelayMs?: number;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 1000;
+// Rate limits need longer to clear than a dropped connection.
+const QUOTA_DELAY_FACTOR = 4;
+
+// Runs an AI call, retrying transient failures with exponential backoff and
+// jitter. Errors come out classified; cancellation is never retried.
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { signal, retries = DEFAULT_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS } = options;
+    for (let attempt = 0; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+            return await operation();
+        } catch (rawError) {
+            const error = signal?.aborted ? new AiError('cancelled', 'The request was cancelled.', rawError) : toAiError(rawError);
+            if (attempt >= retries || !isRetryableAiError(error)) throw error;
+            const delay = baseDelayMs * 2 ** attempt * (error.kind === 'quota' ? QUOTA_DELAY_FACTOR : 1) * (0.75 + Math.random() * 0.5);
+            console.warn(`AI call failed (${error.kind}), retrying in ${Math.round(delay)}ms`, error);
+            await sleep(delay, signal);
+        }
+    }
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { dataUrlToPart, fileToPart } from './aiProvider';
+import { dataURLtoFile } from './imageUtils';
+
+// 1x1 transparent PNG.
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+describe('dataUrlToPart', () => {
+    it('splits the MIME type from the base64 payload', () => {
+        expect(dataUrlToPart(PIXEL)).toEqual({
+            inlineData: { mimeType: 'image/png', data: PIXEL.split(',')[1] },
+        });
+    });
+
+    it('rejects malformed data URLs', () => {
+        expect(() => dataUrlToPart('not a data url')).toThrow('Invalid data URL');
+        expect(() => dataUrlToPart('data:,AAAA')).toThrow('Could not parse MIME type');
+    });
+});
+
+describe('fileToPart', () => {
+    it('sends the file bytes base64-encoded with their MIME type', async () => {
+        const bytes = new Uint8Array([0, 1, 127, 128, 254, 255]);
+        const part = await fileToPart(new File([bytes], 'design.bin', { type: 'application/octet-stream' }));
+        expect(part.inlineData.mimeType).toBe('application/octet-stream');
+        expect(Uint8Array.from(atob(part.inlineData.data), char => char.charCodeAt(0))).toEqual(bytes);
+    });
+
+    it('round-trips a data URL through a file', async () => {
+        const { inlineData } = await fileToPart(dataURLtoFile(PIXEL, 'pixel.png'));
+        expect(`data:${inlineData.mimeType};base64,${inlineData.data}`).toBe(PIXEL);
+    });
+});
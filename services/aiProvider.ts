@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createGeminiProvider } from './geminiProvider';
+import { blobToDataURL } from './imageUtils';
+import { createMockProvider } from './mockProvider';
+
+export type AiProviderName = 'gemini' | 'mock';
+
+export interface InlineDataPart {
+    inlineData: { mimeType: string; data: string; };
+}
+
+export interface TextPart {
+    text: string;
+}
+
+export type ContentPart = InlineDataPart | TextPart;
+
+// Splits a base64 data URL into the MIME type and payload providers expect.
+export const dataUrlToPart = (dataUrl: string): InlineDataPart => {
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+export const fileToPart = async (file: Blob): Promise<InlineDataPart> => dataUrlToPart(await blobToDataURL(file));
+
+export interface GroundingSource {
+    uri: string;
+    title: string;
+}
+
+export interface GroundedSearchResult {
+    text: string;
+    sources: GroundingSource[];
+}
+
+export interface ImageGenerationRequest {
+    prompt: string;
+    numberOfImages: number;
+    outputMimeType: 'image/png' | 'image/jpeg';
+    aspectRatio: string;
+    // One of the provider's `imageModels`; the provider's default when omitted.
+    model?: string;
+    // Only honoured by models that support it.
+    seed?: number;
+}
+
+export interface ImageModelInfo {
+    id: string;
+    label: string;
+    // Most images the model returns per request.
+    maxImages: number;
+    supportsSeed: boolean;
+}
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    parts: ContentPart[];
+}
+
+export interface ChatOptions {
+    model: string;
+    systemInstruction: string;
+    history?: ChatTurn[];
+}
+
+export interface ChatSession {
+    sendMessage: (message: string | ContentPart[], signal?: AbortSignal) => Promise<string>;
+    // Streams the reply, calling `onChunk` with each text delta. Resolves to the full reply.
+    sendMessageStream: (message: string | ContentPart[], onChunk: (delta: string) => void, signal?: AbortSignal) => Promise<string>;
+}
+
+// Model ids behind each capability, recorded with generated designs.
+export interface AiProviderModels {
+    imageGeneration: string;
+    imageEdit: string;
+    text: string;
+}
+
+// The capabilities the app needs from an AI backend. Each method returns plain
+// data (data URLs, text) so nothing outside the adapters touches a vendor SDK,
+// and rejects with an `AiError` so failures are classified the same way for
+// every backend. Every call can be cancelled through its `signal`.
+export interface AiProvider {
+    readonly name: AiProviderName;
+    readonly models: AiProviderModels;
+    // Text-to-image models the user can choose between, default first.
+    readonly imageModels: ImageModelInfo[];
+    // Text-to-image generation. Resolves to one data URL per generated image.
+    generateImages: (request: ImageGenerationRequest, signal?: AbortSignal) => Promise<string[]>;
+    // Image-in, image-out editing. `context` names the operation for logs and errors.
+    editImage: (parts: ContentPart[], context: string, signal?: AbortSignal) => Promise<string>;
+    // Vision model that answers with text about the supplied image(s).
+    describeImage: (parts: ContentPart[], signal?: AbortSignal) => Promise<string>;
+    // Text generation grounded on a web search, with the sources it used.
+    groundedSearch: (parts: ContentPart[], signal?: AbortSignal) => Promise<GroundedSearchResult>;
+    createChat: (options: ChatOptions) => ChatSession;
+}
+
+const resolveProviderName = (): AiProviderName => {
+    const configured = process.env.AI_PROVIDER;
+    if (configured === 'gemini' || configured === 'mock') {
+        return configured;
+    }
+    // Without a key the Gemini adapter cannot do anything useful, so fall back to fixtures.
+    return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+let activeProvider: AiProvider | null = null;
+
+export const createAiProvider = (name: AiProviderName): AiProvider => {
+    switch (name) {
+        case 'gemini':
+            return createGeminiProvider(process.env.API_KEY!);
+        case 'mock':
+            return createMockProvider();
+    }
+};
+
+export const getAiProvider = (): AiProvider => {
+    if (!activeProvider) {
+        activeProvider = createAiProvider(resolveProviderName());
+        console.log(`Using "${activeProvider.name}" AI provider`);
+    }
+    return activeProvider;
+};
+
+// Overrides the configured provider, e.g. to run against fixtures in tests.
+export const setAiProvider = (provider: AiProvider | null) => {
+    activeProvider = provider;
+};
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from './imageUtils';
+
+// Turns a design on white paper into ink on a transparent background. Each
+// pixel is treated as ink laid over white: alpha is the least ink coverage
+// that can produce the observed color, and the color is un-mixed from the
+// white accordingly. Anti-aliased edges and light washes therefore keep soft,
+// partial alpha instead of a hard white fringe.
+
+// Tolerance is the ink coverage, 0..MAX, below which a pixel counts as paper.
+export const DEFAULT_WHITE_TOLERANCE = 0.08;
+export const MAX_WHITE_TOLERANCE = 0.5;
+
+export const removeWhiteBackground = async (src: string, tolerance = DEFAULT_WHITE_TOLERANCE): Promise<string> => {
+    const image = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    ctx.drawImage(image, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const data = pixels.data;
+    const cutoff = Math.min(Math.max(tolerance, 0), MAX_WHITE_TOLERANCE);
+
+    for (let i = 0; i < data.length; i += 4) {
+        const coverage = (255 - Math.min(data[i], data[i + 1], data[i + 2])) / 255;
+        if (coverage <= cutoff) {
+            data[i + 3] = 0;
+            continue;
+        }
+        for (let c = 0; c < 3; c++) {
+            data[i + c] = 255 - (255 - data[i + c]) / coverage;
+        }
+        // Fade in over a band above the cutoff so edges don't step from nothing to full ink.
+        const ramp = Math.min(1, (coverage - cutoff) / Math.max(cutoff, 1 / 255));
+        data[i + 3] *= coverage * ramp;
+    }
+
+    ctx.putImageData(pixels, 0, 0);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { ContractChange } from '../types';
+import { createContract, formatPrice, normalizeContract, updateContract } from './contractService';
+
+const CHANGE: ContractChange = { changedAt: '2024-01-01T00:00:00.000Z', field: 'status', from: 'Pending', to: 'Approved' };
+
+describe('normalizeContract', () => {
+    it('returns a fresh contract for missing or malformed data', () => {
+        expect(normalizeContract(undefined)).toEqual(createContract());
+        expect(normalizeContract('Approved')).toEqual(createContract());
+        expect(normalizeContract([])).toEqual(createContract());
+    });
+
+    it('reads legacy free-text prices', () => {
+        expect(normalizeContract({ status: 'Approved', price: '$1,200' })).toMatchObject({ status: 'Approved', price: { currency: 'USD', amount: 1200, deposit: null } });
+    });
+
+    it('keeps supported currencies and falls back to USD otherwise', () => {
+        expect(normalizeContract({ price: { currency: 'EUR', amount: 80, deposit: 20 } }).price).toEqual({ currency: 'EUR', amount: 80, deposit: 20 });
+        const price = normalizeContract({ price: { currency: 'not a currency', amount: 80, deposit: null } }).price;
+        expect(price.currency).toBe('USD');
+        expect(() => formatPrice(price)).not.toThrow();
+    });
+
+    it('drops malformed history entries', () => {
+        const history = [CHANGE, null, 'changed', { ...CHANGE, field: 'artist' }, { ...CHANGE, from: 3 }];
+        expect(normalizeContract({ history }).history).toEqual([CHANGE]);
+    });
+
+    it('ignores unknown statuses and unparseable dates', () => {
+        const contract = normalizeContract({ status: 'Cancelled', appointmentDate: 'next week' });
+        expect(contract.status).toBe('Pending');
+        expect(contract.appointmentDate).toBe('');
+    });
+});
+
+describe('updateContract', () => {
+    it('accepts a free tattoo but not a negative price or deposit', () => {
+        const contract = createContract();
+        expect(updateContract(contract, { price: { currency: 'USD', amount: 0, deposit: 0 } }).price.amount).toBe(0);
+        expect(() => updateContract(contract, { price: { currency: 'USD', amount: -1, deposit: null } })).toThrow('The price cannot be negative.');
+        expect(() => updateContract(contract, { price: { currency: 'USD', amount: 100, deposit: -1 } })).toThrow('The deposit cannot be negative.');
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Contract, ContractChange, ContractPrice, ContractStatus } from '../types';
+
+export const CONTRACT_STATUSES: ContractStatus[] = ['Pending', 'Approved', 'In Progress', 'Completed'];
+
+// Allowed moves between statuses. An approved contract can be reopened for
+// renegotiation, but once work has started it can only run to completion.
+export const CONTRACT_TRANSITIONS: Record<ContractStatus, ContractStatus[]> = {
+    'Pending': ['Approved'],
+    'Approved': ['Pending', 'In Progress'],
+    'In Progress': ['Completed'],
+    'Completed': [],
+};
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD'];
+
+export const canTransition = (from: ContractStatus, to: ContractStatus): boolean =>
+    CONTRACT_TRANSITIONS[from].includes(to);
+
+export const createContract = (): Contract => ({
+    status: 'Pending',
+    price: { currency: 'USD', amount: null, deposit: null },
+    appointmentDate: '',
+    history: [],
+});
+
+const parseLegacyAmount = (value: string): number | null => {
+    const amount = parseFloat(value.replace(/[^0-9.]/g, ''));
+    return Number.isFinite(amount) ? amount : null;
+};
+
+const CONTRACT_FIELDS: ContractChange['field'][] = ['status', 'price', 'appointmentDate'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+    values.includes(value as T);
+
+const isContractChange = (value: unknown): value is ContractChange =>
+    isRecord(value)
+        && typeof value.changedAt === 'string'
+        && isOneOf(CONTRACT_FIELDS, value.field)
+        && typeof value.from === 'string'
+        && typeof value.to === 'string';
+
+// Projects saved before the contract editor stored price and date as free
+// text, and imported bundles can hold anything, so every field is checked.
+export const normalizeContract = (raw: unknown): Contract => {
+    const contract = createContract();
+    if (!isRecord(raw)) return contract;
+
+    if (isOneOf(CONTRACT_STATUSES, raw.status)) {
+        contract.status = raw.status;
+    }
+    const { price } = raw;
+    if (typeof price === 'string') {
+        contract.price.amount = parseLegacyAmount(price);
+    } else if (isRecord(price)) {
+        contract.price = {
+            // Intl.NumberFormat throws on unknown codes, which would break every view of the price.
+            currency: isOneOf(SUPPORTED_CURRENCIES, price.currency) ? price.currency : 'USD',
+            amount: typeof price.amount === 'number' ? price.amount : null,
+            deposit: typeof price.deposit === 'number' ? price.deposit : null,
+        };
+    }
+    if (typeof raw.appointmentDate === 'string' && raw.appointmentDate && !isNaN(Date.parse(raw.appointmentDate))) {
+        contract.appointmentDate = new Date(raw.appointmentDate).toISOString();
+    }
+    if (Array.isArray(raw.history)) {
+        contract.history = raw.history.filter(isContractChange);
+    }
+    return contract;
+};
+
+export const formatPrice = (price: ContractPrice): string => {
+    if (price.amount === null) return 'Not set';
+    const format = (value: number) => new Intl.NumberFormat(undefined, { style: 'currency', currency: price.currency }).format(value);
+    return price.deposit !== null ? `${format(price.amount)} (${format(price.deposit)} deposit)` : format(price.amount);
+};
+
+export const formatAppointment = (appointmentDate: string): string =>
+    appointmentDate ? new Date(appointmentDate).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : 'Not scheduled';
+
+const validatePrice = (price: ContractPrice) => {
+    if (!SUPPORTED_CURRENCIES.includes(price.currency)) {
+        throw new Error(`Unsupported currency "${price.currency}".`);
+    }
+    if (price.amount !== null && (!Number.isFinite(price.amount) || price.amount < 0)) {
+        throw new Error('The price cannot be negative.');
+    }
+    if (price.deposit !== null) {
+        if (!Number.isFinite(price.deposit) || price.deposit < 0) {
+            throw new Error('The deposit cannot be negative.');
+        }
+        if (price.amount === null || price.deposit > price.amount) {
+            throw new Error('The deposit cannot exceed the total price.');
+        }
+    }
+};
+
+export type ContractUpdate = Partial<Pick<Contract, 'status' | 'price' | 'appointmentDate'>>;
+
+// Applies the update, enforcing the status state machine, and records every
+// changed field in the contract history. Throws when the update is not allowed.
+export const updateContract = (contract: Contract, update: ContractUpdate, now: Date = new Date()): Contract => {
+    const changes: ContractChange[] = [];
+    const changedAt = now.toISOString();
+    const next: Contract = { ...contract };
+
+    if (update.status !== undefined && update.status !== contract.status) {
+        if (!canTransition(contract.status, update.status)) {
+            throw new Error(`A contract cannot move from "${contract.status}" to "${update.status}".`);
+        }
+        next.status = update.status;
+        changes.push({ changedAt, field: 'status', from: contract.status, to: update.status });
+    }
+
+    if (update.price !== undefined) {
+        if (contract.status === 'In Progress' || contract.status === 'Completed') {
+            throw new Error('The price is locked once work has started.');
+        }
+        validatePrice(update.price);
+        const from = formatPrice(contract.price);
+        const to = formatPrice(update.price);
+        if (from !== to) {
+            next.price = update.price;
+            changes.push({ changedAt, field: 'price', from, to });
+        }
+    }
+
+    if (update.appointmentDate !== undefined && update.appointmentDate !== contract.appointmentDate) {
+        if (update.appointmentDate && isNaN(Date.parse(update.appointmentDate))) {
+            throw new Error('The appointment date is not a valid date.');
+        }
+        next.appointmentDate = update.appointmentDate;
+        changes.push({
+            changedAt,
+            field: 'appointmentDate',
+            from: formatAppointment(contract.appointmentDate),
+            to: formatAppointment(update.appointmentDate),
+        });
+    }
+
+    if (changes.length === 0) return contract;
+    next.history = [...contract.history, ...changes];
+    return next;
+};
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The app's IndexedDB database, shared by the project and draft repositories.
+// Every schema change is a numbered migration so existing data is upgraded
+// in place.
+
+const DB_NAME = 'inkgenius';
+export const DB_SCHEMA_VERSION = 3;
+export const PROJECT_STORE = 'projects';
+export const DRAFT_STORE = 'drafts';
+export const DRAFT_IMAGE_STORE = 'draftImages';
+
+export class StorageQuotaError extends Error {
+    constructor(message = 'Your device is out of storage space for saved projects. Delete some projects from your gallery and try again.') {
+        super(message);
+        this.name = 'StorageQuotaError';
+    }
+}
+
+const isQuotaError = (error: unknown): boolean =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+
+// Each entry upgrades the database from the previous schema version.
+const MIGRATIONS: Record<number, (db: IDBDatabase) => void> = {
+    1: (db) => {
+        db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+    },
+    2: (db) => {
+        db.createObjectStore(DRAFT_STORE, { keyPath: 'id' });
+    },
+    // Draft images are keyed by [draft id, image id].
+    3: (db) => {
+        db.createObjectStore(DRAFT_IMAGE_STORE);
+    },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_SCHEMA_VERSION);
+            request.onupgradeneeded = (event) => {
+                for (let version = event.oldVersion + 1; version <= DB_SCHEMA_VERSION; version++) {
+                    MIGRATIONS[version]?.(request.result);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+export const withQuotaHandling = async <T>(operation: () => Promise<T>): Promise<T> => {
+    try {
+        return await operation();
+    } catch (error) {
+        if (isQuotaError(error)) {
+            throw new StorageQuotaError();
+        }
+        throw error;
+    }
+};
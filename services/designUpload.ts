@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from './imageUtils';
+
+// Brings a user's own artwork into the same shape as a generated design: a
+// PNG of dark ink on pure white. Flash sheets can be split into their
+// individual pieces by finding clusters of ink separated by blank paper.
+
+export const ACCEPTED_DESIGN_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml'];
+
+// Photos of sketches can be huge; nothing downstream benefits from more than this.
+const MAX_UPLOAD_SIDE = 2048;
+// SVGs without an intrinsic size are rendered at this size.
+const DEFAULT_SVG_SIDE = 1024;
+
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    return { canvas, ctx };
+};
+
+const readAsDataURL = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+// Reads an uploaded PNG, JPG or SVG and returns it as a PNG flattened onto white.
+export const readDesignFile = async (file: File): Promise<string> => {
+    if (!ACCEPTED_DESIGN_TYPES.includes(file.type)) {
+        throw new Error('Upload a PNG, JPG or SVG image.');
+    }
+    let image: HTMLImageElement;
+    try {
+        image = await loadImage(await readAsDataURL(file));
+    } catch (error) {
+        console.error('Failed to read uploaded design', error);
+        throw new Error('This image could not be opened.');
+    }
+    const isSvg = file.type === 'image/svg+xml';
+    const naturalWidth = image.naturalWidth || DEFAULT_SVG_SIDE;
+    const naturalHeight = image.naturalHeight || DEFAULT_SVG_SIDE;
+    // Vectors are rendered at a useful size; rasters are only ever scaled down.
+    const targetSide = isSvg ? DEFAULT_SVG_SIDE : Math.min(MAX_UPLOAD_SIDE, Math.max(naturalWidth, naturalHeight));
+    const scale = targetSide / Math.max(naturalWidth, naturalHeight);
+    const { canvas, ctx } = createCanvas(Math.round(naturalWidth * scale), Math.round(naturalHeight * scale));
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+// Ink coverage below this, after white balancing, is treated as paper.
+const PAPER_COVERAGE = 0.12;
+// Width of the border sampled for the paper color, as a fraction of the shorter side.
+const BORDER_SAMPLE = 0.02;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)] ?? 255;
+};
+
+// Whitens the paper of a scanned or photographed design: the paper color is
+// estimated from the image border, divided out, and near-white noise is
+// flattened to pure white. Dark backgrounds are left alone.
+export const cleanDesignBackground = async (src: string): Promise<string> => {
+    const image = await loadImage(src);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data, width, height } = pixels;
+
+    const band = Math.max(1, Math.round(Math.min(width, height) * BORDER_SAMPLE));
+    const samples: number[][] = [[], [], []];
+    const step = Math.max(1, Math.floor(Math.max(width, height) / 400));
+    for (let y = 0; y < height; y += step) {
+        for (let x = 0; x < width; x += step) {
+            if (x >= band && x < width - band && y >= band && y < height - band) continue;
+            const i = (y * width + x) * 4;
+            samples.forEach((channel, c) => channel.push(data[i + c]));
+        }
+    }
+    const paper = samples.map(median);
+    if (0.2126 * paper[0] + 0.7152 * paper[1] + 0.0722 * paper[2] < 100) return src;
+
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            data[i + c] = Math.min(255, (data[i + c] * 255) / Math.max(paper[c], 1));
+        }
+        const coverage = (255 - Math.min(data[i], data[i + 1], data[i + 2])) / 255;
+        if (coverage < PAPER_COVERAGE) {
+            data[i] = data[i + 1] = data[i + 2] = 255;
+        }
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Flash detection runs on a reduced copy; pieces are then cropped from the full image.
+const DETECT_SIDE = 512;
+const INK_COVERAGE = 0.2;
+// Ink closer than this (fraction of the longer side) belongs to the same piece.
+const PIECE_GAP = 0.015;
+// Clusters smaller than this fraction of the sheet are specks or signatures.
+const MIN_PIECE_AREA = 0.005;
+const CROP_PADDING = 0.04;
+
+const overlaps = (a: CropRect, b: CropRect) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const union = (a: CropRect, b: CropRect): CropRect => {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+// Finds the separate pieces on a flash sheet, in reading order, as rectangles
+// in the image's own pixels. An image holding a single design yields one
+// rectangle around it.
+export const detectFlashPieces = async (src: string): Promise<CropRect[]> => {
+    const image = await loadImage(src);
+    const scale = Math.min(1, DETECT_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const { ctx } = createCanvas(width, height);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const ink = new Uint8Array(width * height);
+    for (let p = 0; p < ink.length; p++) {
+        const i = p * 4;
+        ink[p] = (255 - Math.min(data[i], data[i + 1], data[i + 2])) / 255 > INK_COVERAGE ? 1 : 0;
+    }
+
+    // Dilate with a square window (separably) so nearby strokes join up.
+    const radius = Math.max(2, Math.round(Math.max(width, height) * PIECE_GAP));
+    const horizontal = new Uint8Array(ink.length);
+    for (let y = 0; y < height; y++) {
+        let count = 0;
+        for (let x = -radius; x < width; x++) {
+            if (x + radius < width) count += ink[y * width + x + radius];
+            if (x - radius - 1 >= 0) count -= ink[y * width + x - radius - 1];
+            if (x >= 0) horizontal[y * width + x] = count > 0 ? 1 : 0;
+        }
+    }
+    const joined = new Uint8Array(ink.length);
+    for (let x = 0; x < width; x++) {
+        let count = 0;
+        for (let y = -radius; y < height; y++) {
+            if (y + radius < height) count += horizontal[(y + radius) * width + x];
+            if (y - radius - 1 >= 0) count -= horizontal[(y - radius - 1) * width + x];
+            if (y >= 0) joined[y * width + x] = count > 0 ? 1 : 0;
+        }
+    }
+
+    // Label connected regions of the joined mask, measuring the original ink in each.
+    const labels = new Int32Array(ink.length).fill(-1);
+    const boxes: (CropRect & { inked: number })[] = [];
+    const stack: number[] = [];
+    for (let start = 0; start < joined.length; start++) {
+        if (!joined[start] || labels[start] >= 0) continue;
+        const label = boxes.length;
+        let minX = width, minY = height, maxX = -1, maxY = -1, inked = 0;
+        labels[start] = label;
+        stack.push(start);
+        while (stack.length > 0) {
+            const p = stack.pop()!;
+            const x = p % width;
+            const y = (p - x) / width;
+            if (ink[p]) {
+                inked += 1;
+                minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+                minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+            }
+            const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1];
+            for (const n of neighbours) {
+                if (n >= 0 && joined[n] && labels[n] < 0) {
+                    labels[n] = label;
+                    stack.push(n);
+                }
+            }
+        }
+        boxes.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, inked });
+    }
+
+    let pieces: CropRect[] = boxes
+        .filter(box => box.inked > 0 && box.width * box.height >= MIN_PIECE_AREA * width * height)
+        .map(({ x, y, width: w, height: h }) => ({ x, y, width: w, height: h }));
+
+    // Padding can make neighbouring pieces overlap; overlapping crops are merged.
+    const pad = Math.round(Math.max(width, height) * CROP_PADDING);
+    pieces = pieces.map(piece => {
+        const x = Math.max(0, piece.x - pad);
+        const y = Math.max(0, piece.y - pad);
+        return { x, y, width: Math.min(width, piece.x + piece.width + pad) - x, height: Math.min(height, piece.y + piece.height + pad) - y };
+    });
+    let merged = true;
+    while (merged) {
+        merged = false;
+        for (let i = 0; i < pieces.length && !merged; i++) {
+            for (let j = i + 1; j < pieces.length && !merged; j++) {
+                if (overlaps(pieces[i], pieces[j])) {
+                    pieces[i] = union(pieces[i], pieces[j]);
+                    pieces.splice(j, 1);
+                    merged = true;
+                }
+            }
+        }
+    }
+
+    // Reading order: rows first, where a row is pieces whose centres share a band.
+    const rowHeight = height / 8;
+    pieces.sort((a, b) =>
+        Math.floor((a.y + a.height / 2) / rowHeight) - Math.floor((b.y + b.height / 2) / rowHeight) || a.x - b.x
+    );
+
+    return pieces.map(piece => ({
+        x: Math.round(piece.x / scale),
+        y: Math.round(piece.y / scale),
+        width: Math.min(image.naturalWidth, Math.round(piece.width / scale)),
+        height: Math.min(image.naturalHeight, Math.round(piece.height / scale)),
+    }));
+};
+
+export const cropDesign = async (src: string, rect: CropRect): Promise<string> => {
+    const image = await loadImage(src);
+    const { canvas, ctx } = createCanvas(rect.width, rect.height);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, rect.width, rect.height);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DesignOptions, DesignRefinement, DesignVersion } from '../types';
+
+// A version tree is a flat list of versions linked by `parentId`, kept in
+// creation order, so it stays serializable and cheap to append to.
+
+let versionCounter = 0;
+
+// Stands in for the model on designs the user uploaded themselves.
+export const UPLOADED_DESIGN_MODEL = 'user upload';
+
+export interface DesignVersionDetails {
+    model: string;
+    instruction?: string;
+    prompt?: string;
+    stylePrompt?: string;
+    referenceImage?: string | null;
+    designOptions?: DesignOptions;
+}
+
+export const createDesignVersion = (
+    image: string,
+    parentId: string | null,
+    refinement: DesignRefinement,
+    details: DesignVersionDetails
+): DesignVersion => {
+    versionCounter += 1;
+    const { model, instruction, prompt, stylePrompt, referenceImage, designOptions } = details;
+    return {
+        id: `ver_${Date.now()}_${versionCounter}`,
+        parentId,
+        image,
+        refinement,
+        ...(instruction ? { instruction } : {}),
+        model,
+        ...(prompt ? { prompt } : {}),
+        ...(stylePrompt ? { stylePrompt } : {}),
+        ...(referenceImage ? { referenceImage } : {}),
+        ...(designOptions ? { designOptions } : {}),
+        createdAt: new Date().toISOString(),
+    };
+};
+
+export const findVersion = (versions: DesignVersion[], versionId: string | null): DesignVersion | undefined =>
+    versions.find(version => version.id === versionId);
+
+export const getChildVersions = (versions: DesignVersion[], parentId: string | null): DesignVersion[] =>
+    versions.filter(version => version.parentId === parentId);
+
+// The chain of versions from the root down to, and including, the given version.
+export const getLineage = (versions: DesignVersion[], versionId: string): DesignVersion[] => {
+    const lineage: DesignVersion[] = [];
+    let current = findVersion(versions, versionId);
+    while (current && !lineage.includes(current)) {
+        lineage.unshift(current);
+        current = findVersion(versions, current.parentId);
+    }
+    return lineage;
+};
+
+export const getRootVersion = (versions: DesignVersion[], versionId: string): DesignVersion | undefined =>
+    getLineage(versions, versionId)[0];
+
+// The root of the given version and all of its descendants, in creation order.
+export const getVersionTree = (versions: DesignVersion[], versionId: string): DesignVersion[] => {
+    const root = getRootVersion(versions, versionId);
+    if (!root) return [];
+    const treeIds = new Set([root.id]);
+    // Versions are appended in creation order, so parents always come before children.
+    return versions.filter(version => {
+        if (version.id === root.id) return true;
+        if (version.parentId && treeIds.has(version.parentId)) {
+            treeIds.add(version.id);
+            return true;
+        }
+        return false;
+    });
+};
+
+export interface DesignProvenance {
+    prompt?: string;
+    stylePrompt?: string;
+    referenceImage?: string;
+    designOptions?: DesignOptions;
+    model: string;
+    parent?: DesignVersion;
+    // Every edit instruction from the root down to this version.
+    instructions: string[];
+}
+
+export const resolveProvenance = (versions: DesignVersion[], versionId: string): DesignProvenance | undefined => {
+    const lineage = getLineage(versions, versionId);
+    const version = lineage[lineage.length - 1];
+    if (!version) return undefined;
+    const root = lineage[0];
+    return {
+        prompt: root.prompt,
+        stylePrompt: root.stylePrompt,
+        referenceImage: root.referenceImage,
+        designOptions: root.designOptions,
+        model: version.model,
+        parent: lineage[lineage.length - 2],
+        instructions: lineage.flatMap(v => v.instruction ? [v.instruction] : []),
+    };
+};
+
+// Outline-style label such as "Design 2.1.3": the root's position, then each
+// version's position among its siblings.
+export const versionLabel = (versions: DesignVersion[], versionId: string): string => {
+    const positions = getLineage(versions, versionId).map(version =>
+        getChildVersions(versions, version.parentId).indexOf(version) + 1
+    );
+    return `Design ${positions.join('.')}`;
+};
+
+export const REFINEMENT_LABELS: Record<DesignRefinement, string> = {
+    generated: 'Generated',
+    uploaded: 'Uploaded',
+    variation: 'Variation',
+    edit: 'Edit',
+    inpaint: 'Inpaint',
+};
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DesignVersion, DraftState, SessionDraft } from '../types';
+import { createEmptyDraftState, deleteDraft, listDrafts, loadDraft, saveDraft } from './draftRepository';
+import { DRAFT_IMAGE_STORE, DRAFT_STORE, openDatabase, requestToPromise, transactionDone } from './database';
+import { dataURLtoBlob } from './imageUtils';
+
+// Two different 1x1 PNGs.
+const DESIGN = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+const PHOTO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+const VERSION: DesignVersion = {
+    id: 'v1',
+    parentId: null,
+    image: DESIGN,
+    refinement: 'generated',
+    model: 'mock-image',
+    createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+const draft = (state: Partial<DraftState>): SessionDraft => ({
+    id: 'draft_1',
+    name: 'Koi',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    path: '/design',
+    state: { ...createEmptyDraftState(), ...state },
+});
+
+const storedImageCount = async () => {
+    const db = await openDatabase();
+    return (await requestToPromise(db.transaction(DRAFT_IMAGE_STORE).objectStore(DRAFT_IMAGE_STORE).getAllKeys())).length;
+};
+
+// Counts the images a save writes.
+const spyOnImageWrites = () => {
+    const put = vi.spyOn(IDBObjectStore.prototype, 'put');
+    return () => put.mock.contexts.filter(store => (store as IDBObjectStore).name === DRAFT_IMAGE_STORE).length;
+};
+
+beforeEach(async () => {
+    await Promise.all((await listDrafts()).map(d => deleteDraft(d.id)));
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('draftRepository', () => {
+    it('saves and loads a draft with its images', async () => {
+        const saved = draft({ prompt: 'A koi fish', designVersions: [VERSION], selectedVersionId: 'v1', selectedTattoo: DESIGN, tryOnImage: PHOTO });
+        await saveDraft(saved);
+        expect(await loadDraft('draft_1')).toEqual(saved);
+        expect(await listDrafts()).toEqual([{ id: 'draft_1', name: 'Koi', updatedAt: saved.updatedAt, path: '/design', thumbnail: DESIGN }]);
+    });
+
+    it('stores each distinct image once', async () => {
+        await saveDraft(draft({ designVersions: [VERSION], selectedTattoo: DESIGN, tryOnImage: PHOTO }));
+        expect(await storedImageCount()).toBe(2);
+    });
+
+    it('writes only the images that are new since the last save', async () => {
+        await saveDraft(draft({ designVersions: [VERSION], selectedTattoo: DESIGN }));
+        const imageWrites = spyOnImageWrites();
+        await saveDraft(draft({ prompt: 'A koi fish', designVersions: [VERSION], selectedTattoo: DESIGN }));
+        expect(imageWrites()).toBe(0);
+
+        await saveDraft(draft({ designVersions: [VERSION], selectedTattoo: DESIGN, tryOnImage: PHOTO }));
+        expect(imageWrites()).toBe(1);
+    });
+
+    it('drops images the draft no longer uses', async () => {
+        await saveDraft(draft({ designVersions: [VERSION], tryOnImage: PHOTO }));
+        await saveDraft(draft({ designVersions: [VERSION] }));
+        expect(await storedImageCount()).toBe(1);
+        expect((await loadDraft('draft_1'))?.state.tryOnImage).toBeNull();
+    });
+
+    it('deletes a draft with its images', async () => {
+        await saveDraft(draft({ designVersions: [VERSION], tryOnImage: PHOTO }));
+        await deleteDraft('draft_1');
+        expect(await loadDraft('draft_1')).toBeNull();
+        expect(await storedImageCount()).toBe(0);
+    });
+
+    it('loads drafts saved with their images inline', async () => {
+        const blob = dataURLtoBlob(DESIGN);
+        const db = await openDatabase();
+        const transaction = db.transaction(DRAFT_STORE, 'readwrite');
+        transaction.objectStore(DRAFT_STORE).put({
+            ...draft({}),
+            state: { ...createEmptyDraftState(), designVersions: [{ ...VERSION, image: blob }], selectedTattoo: blob },
+            thumbnail: blob,
+        });
+        await transactionDone(transaction);
+
+        const loaded = await loadDraft('draft_1');
+        expect(loaded?.state.selectedTattoo).toBe(DESIGN);
+        expect(loaded?.state.designVersions[0].image).toBe(DESIGN);
+        expect((await listDrafts())[0].thumbnail).toBe(DESIGN);
+    });
+});
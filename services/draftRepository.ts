@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DraftState, DraftSummary, SessionDraft } from '../types';
+import { blobToDataURL, dataURLtoBlob, isDataURL, mapDeep } from './imageUtils';
+import { DRAFT_IMAGE_STORE, DRAFT_STORE, openDatabase, requestToPromise, transactionDone, withQuotaHandling } from './database';
+import { DEFAULT_DESIGN_OPTIONS } from './promptBuilder';
+import { DEFAULT_SKIN_BLEND } from './skinBlend';
+
+// Working drafts of unfinished sessions. Like projects they live in
+// IndexedDB with images as Blobs. A session repeats the same image in many
+// places (the selected design, its version, every layer that uses it), so
+// each distinct image is stored once, in its own record, and the draft
+// refers to it by id wherever it appears. Autosave then only writes the
+// images that are new since the last save.
+
+// Stands in for an image in a stored draft.
+interface ImageRef {
+    draftImageId: string;
+}
+
+interface DraftRecord extends Omit<SessionDraft, 'state'> {
+    state: unknown;
+    // Drafts saved before images had their own store hold Blobs inline.
+    thumbnail: ImageRef | Blob | null;
+}
+
+type DraftImageKey = [draftId: string, imageId: string];
+
+// For each draft saved or loaded this session, the id each of its images is stored under.
+const storedImageIds = new Map<string, Map<string, string>>();
+
+export const DEFAULT_ARTIST_LOCATION = 'New York City';
+
+export const createEmptyDraftState = (): DraftState => ({
+    prompt: '',
+    designOptions: DEFAULT_DESIGN_OPTIONS,
+    designVersions: [],
+    selectedVersionId: null,
+    branchProjectId: null,
+    referenceSearchQuery: '',
+    referenceImages: [],
+    selectedReferenceImage: null,
+    styleDescription: '',
+    selectedTattoo: null,
+    tryOnImage: null,
+    tryOnSourceImage: null,
+    tryOnPhotoSize: null,
+    tattooLayers: [],
+    skinBlend: DEFAULT_SKIN_BLEND,
+    tryOnProjectId: null,
+    finalImage: null,
+    locationSearch: DEFAULT_ARTIST_LOCATION,
+    artists: [],
+    artistSearchSources: [],
+});
+
+export const createDraftId = () => `draft_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// A draft with nothing worth resuming isn't saved at all.
+export const isDraftEmpty = (state: DraftState): boolean =>
+    !state.prompt.trim() && state.designVersions.length === 0 && state.referenceImages.length === 0 &&
+    !state.selectedTattoo && !state.tryOnImage && !state.finalImage && state.artists.length === 0;
+
+export const draftThumbnail = (state: DraftState): string | null =>
+    state.finalImage ?? state.selectedTattoo ?? state.designVersions[0]?.image ?? state.tryOnImage;
+
+// Names a new draft after what the user asked for, or when it was started.
+export const defaultDraftName = (state: DraftState, date = new Date()): string => {
+    const prompt = state.prompt.trim();
+    if (prompt) return prompt.length > 40 ? `${prompt.slice(0, 40).trimEnd()}…` : prompt;
+    return `Draft from ${date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+};
+
+const isImageRef = (value: unknown): value is ImageRef =>
+    !!value && typeof value === 'object' && typeof (value as ImageRef).draftImageId === 'string';
+
+const createImageId = () => `img_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const draftImageRange = (draftId: string) => IDBKeyRange.bound([draftId], [draftId, []]);
+
+// Every image stored for the draft, by image id.
+const getImages = async (db: IDBDatabase, draftId: string): Promise<Map<string, Blob>> => {
+    const store = db.transaction(DRAFT_IMAGE_STORE).objectStore(DRAFT_IMAGE_STORE);
+    const [keys, blobs] = await Promise.all([
+        requestToPromise(store.getAllKeys(draftImageRange(draftId))),
+        requestToPromise(store.getAll(draftImageRange(draftId))),
+    ]);
+    return new Map(keys.map((key, index) => [(key as DraftImageKey)[1], blobs[index] as Blob]));
+};
+
+const getRecord = async (db: IDBDatabase, draftId: string): Promise<DraftRecord | undefined> =>
+    requestToPromise(db.transaction(DRAFT_STORE).objectStore(DRAFT_STORE).get(draftId));
+
+const putRecord = async (db: IDBDatabase, record: DraftRecord) => {
+    const transaction = db.transaction(DRAFT_STORE, 'readwrite');
+    transaction.objectStore(DRAFT_STORE).put(record);
+    await transactionDone(transaction);
+};
+
+const readThumbnail = async (db: IDBDatabase, { id, thumbnail }: DraftRecord): Promise<string | null> => {
+    if (thumbnail instanceof Blob) return blobToDataURL(thumbnail);
+    if (!isImageRef(thumbnail)) return null;
+    const key: DraftImageKey = [id, thumbnail.draftImageId];
+    const blob: Blob | undefined = await requestToPromise(db.transaction(DRAFT_IMAGE_STORE).objectStore(DRAFT_IMAGE_STORE).get(key));
+    return blob ? blobToDataURL(blob) : null;
+};
+
+// Newest first.
+export const listDrafts = async (): Promise<DraftSummary[]> => {
+    const db = await withQuotaHandling(openDatabase);
+    const records: DraftRecord[] = await requestToPromise(db.transaction(DRAFT_STORE).objectStore(DRAFT_STORE).getAll());
+    const summaries = await Promise.all(records.map(async (record) => ({
+        id: record.id, name: record.name, updatedAt: record.updatedAt, path: record.path,
+        thumbnail: await readThumbnail(db, record),
+    })));
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadDraft = async (draftId: string): Promise<SessionDraft | null> => {
+    const db = await openDatabase();
+    const record = await getRecord(db, draftId);
+    if (!record) return null;
+    const { thumbnail, ...draft } = record;
+
+    const images = await getImages(db, draftId);
+    const imageIds = new Map<string, string>();
+    const dataUrls = new Map<Blob, Promise<string>>();
+    const toDataUrl = (blob: Blob) => {
+        if (!dataUrls.has(blob)) dataUrls.set(blob, blobToDataURL(blob));
+        return dataUrls.get(blob)!;
+    };
+    const readImage = async (imageId: string) => {
+        const blob = images.get(imageId);
+        if (!blob) throw new Error('This draft is missing one of its images.');
+        const dataUrl = await toDataUrl(blob);
+        imageIds.set(dataUrl, imageId);
+        return dataUrl;
+    };
+    // Draft records are only ever written by `saveDraft`, from a `DraftState`.
+    const state = await mapDeep(draft.state, value =>
+        isImageRef(value) ? readImage(value.draftImageId) : value instanceof Blob ? toDataUrl(value) : undefined
+    ) as DraftState;
+    storedImageIds.set(draftId, imageIds);
+    return { ...draft, state };
+};
+
+export const saveDraft = (draft: SessionDraft): Promise<void> =>
+    withQuotaHandling(async () => {
+        const db = await openDatabase();
+        // Images already stored for the draft keep their ids; only new ones get written.
+        const knownIds = storedImageIds.get(draft.id) ?? new Map<string, string>();
+        const imageIds = new Map<string, string>();
+        const toRef = (dataUrl: string): ImageRef => {
+            if (!imageIds.has(dataUrl)) imageIds.set(dataUrl, knownIds.get(dataUrl) ?? createImageId());
+            return { draftImageId: imageIds.get(dataUrl)! };
+        };
+        const state = await mapDeep(draft.state, value => isDataURL(value) ? Promise.resolve(toRef(value)) : undefined);
+        const thumbnail = draftThumbnail(draft.state);
+        const record: DraftRecord = { ...draft, state, thumbnail: thumbnail && isDataURL(thumbnail) ? toRef(thumbnail) : null };
+
+        const transaction = db.transaction([DRAFT_STORE, DRAFT_IMAGE_STORE], 'readwrite');
+        const images = transaction.objectStore(DRAFT_IMAGE_STORE);
+        // Checked against the store rather than trusting `knownIds`, which another save may have pruned since.
+        const keys = await requestToPromise(images.getAllKeys(draftImageRange(draft.id)));
+        const storedIds = new Set(keys.map(key => (key as DraftImageKey)[1]));
+        const usedIds = new Set(imageIds.values());
+        imageIds.forEach((imageId, dataUrl) => {
+            if (!storedIds.has(imageId)) images.put(dataURLtoBlob(dataUrl), [draft.id, imageId]);
+        });
+        storedIds.forEach(imageId => {
+            if (!usedIds.has(imageId)) images.delete([draft.id, imageId]);
+        });
+        transaction.objectStore(DRAFT_STORE).put(record);
+        await transactionDone(transaction);
+        storedImageIds.set(draft.id, imageIds);
+    });
+
+export const renameDraft = async (draftId: string, name: string): Promise<void> => {
+    const db = await openDatabase();
+    const record = await getRecord(db, draftId);
+    if (record) await putRecord(db, { ...record, name });
+};
+
+export const deleteDraft = async (draftId: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([DRAFT_STORE, DRAFT_IMAGE_STORE], 'readwrite');
+    transaction.objectStore(DRAFT_STORE).delete(draftId);
+    transaction.objectStore(DRAFT_IMAGE_STORE).delete(draftImageRange(draftId));
+    await transactionDone(transaction);
+    storedImageIds.delete(draftId);
+};
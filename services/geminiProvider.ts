@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import type { AiProvider, ChatOptions, ContentPart, GroundingSource, ImageGenerationRequest, ImageModelInfo } from './aiProvider';
+import { AiError, toAiError } from './aiErrors';
+
+const IMAGE_GENERATION_MODEL = 'imagen-4.0-generate-001';
+// The Gemini API does not accept a seed for Imagen; that is Vertex AI only.
+const IMAGE_MODELS: ImageModelInfo[] = [
+    { id: IMAGE_GENERATION_MODEL, label: 'Imagen 4', maxImages: 4, supportsSeed: false },
+    { id: 'imagen-4.0-fast-generate-001', label: 'Imagen 4 Fast', maxImages: 4, supportsSeed: false },
+    { id: 'imagen-4.0-ultra-generate-001', label: 'Imagen 4 Ultra', maxImages: 1, supportsSeed: false },
+];
+const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image-preview';
+const TEXT_MODEL = 'gemini-2.5-flash';
+const SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+const handleImageEditApiResponse = (
+    response: GenerateContentResponse,
+    context: string
+): string => {
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        console.error(errorMessage, { response });
+        throw new AiError('safety', errorMessage);
+    }
+
+    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        console.log(`Received image data (${mimeType}) for ${context}`);
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
+        console.error(errorMessage, { response });
+        throw new AiError(SAFETY_FINISH_REASONS.includes(finishReason) ? 'safety' : 'no_image', errorMessage);
+    }
+
+    const textFeedback = response.text?.trim();
+    const errorMessage = `The AI model did not return an image for the ${context}. ` +
+        (textFeedback ? `Feedback: "${textFeedback}"` : 'No additional feedback was provided.');
+    console.error(errorMessage, { response });
+    throw new AiError('no_image', errorMessage);
+};
+
+// Maps SDK and HTTP failures onto the app's error kinds.
+const classifyGeminiError = (error: unknown): AiError => {
+    if (error instanceof AiError) return error;
+    if (error instanceof ApiError) {
+        if (error.status === 429) return new AiError('quota', 'The AI service rate limit or quota was reached.', error);
+        if (error.status >= 500) return new AiError('network', `The AI service is temporarily unavailable (${error.status}).`, error);
+        if (/safety|blocked/i.test(error.message)) return new AiError('safety', error.message, error);
+    }
+    return toAiError(error);
+};
+
+// Runs an SDK call so that whatever it throws comes out classified.
+const classified = async <T>(call: () => Promise<T>): Promise<T> => {
+    try {
+        return await call();
+    } catch (error) {
+        throw classifyGeminiError(error);
+    }
+};
+
+export const createGeminiProvider = (apiKey: string): AiProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+        models: {
+            imageGeneration: IMAGE_GENERATION_MODEL,
+            imageEdit: IMAGE_EDIT_MODEL,
+            text: TEXT_MODEL,
+        },
+        imageModels: IMAGE_MODELS,
+
+        generateImages: (request: ImageGenerationRequest, signal?: AbortSignal) => classified(async () => {
+            const response = await ai.models.generateImages({
+                model: request.model ?? IMAGE_GENERATION_MODEL,
+                prompt: request.prompt,
+                config: {
+                    numberOfImages: request.numberOfImages,
+                    outputMimeType: request.outputMimeType,
+                    aspectRatio: request.aspectRatio,
+                    abortSignal: signal,
+                },
+            });
+
+            return (response.generatedImages ?? []).map(img => `data:${img.image.mimeType};base64,${img.image.imageBytes}`);
+        }),
+
+        editImage: (parts: ContentPart[], context: string, signal?: AbortSignal) => classified(async () => {
+            const response = await ai.models.generateContent({
+                model: IMAGE_EDIT_MODEL,
+                contents: { parts },
+                config: {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    abortSignal: signal,
+                },
+            });
+
+            return handleImageEditApiResponse(response, context);
+        }),
+
+        describeImage: (parts: ContentPart[], signal?: AbortSignal) => classified(async () => {
+            const response = await ai.models.generateContent({
+                model: TEXT_MODEL,
+                contents: { parts },
+                config: { abortSignal: signal },
+            });
+
+            return response.text.trim();
+        }),
+
+        groundedSearch: (parts: ContentPart[], signal?: AbortSignal) => classified(async () => {
+            const response = await ai.models.generateContent({
+                model: TEXT_MODEL,
+                contents: { parts },
+                config: {
+                    tools: [{googleSearch: {}}],
+                    abortSignal: signal,
+                },
+            });
+
+            const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
+            const sources: GroundingSource[] = groundingChunks
+                .map((chunk: any) => chunk.web)
+                .filter((web: any) => web?.uri && web?.title)
+                .reduce((acc: GroundingSource[], current: any) => { // Remove duplicates
+                    if (!acc.find(item => item.uri === current.uri)) {
+                        acc.push({ uri: current.uri, title: current.title });
+                    }
+                    return acc;
+                }, []);
+
+            return { text: response.text.trim(), sources };
+        }),
+
+        createChat: ({ model, systemInstruction, history }: ChatOptions) => {
+            const chat = ai.chats.create({ model, config: { systemInstruction }, history });
+            return {
+                sendMessage: (message: string | ContentPart[], signal?: AbortSignal) => classified(async () => {
+                    const response = await chat.sendMessage({ message, config: { abortSignal: signal } });
+                    return response.text.trim();
+                }),
+                sendMessageStream: (message: string | ContentPart[], onChunk: (delta: string) => void, signal?: AbortSignal) => classified(async () => {
+                    const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+                    let text = '';
+                    for await (const chunk of stream) {
+                        const delta = chunk.text ?? '';
+                        if (delta) {
+                            text += delta;
+                            onChunk(delta);
+                        }
+                    }
+                    return text.trim();
+                }),
+            };
+        },
+    };
+};
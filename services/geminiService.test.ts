@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, describe, expect, it } from 'vitest';
+import { findArtists, streamArtistResponse, type ArtistChatProject } from './geminiService';
+import { setAiProvider, type AiProvider, type ChatOptions, type ContentPart } from './aiProvider';
+import { createMockProvider } from './mockProvider';
+import { AiError } from './aiErrors';
+import { createContract } from './contractService';
+import { dataURLtoFile } from './imageUtils';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// A provider whose grounded search answers with `text` straight away.
+const searchReturning = (text: string): AiProvider => ({
+    ...createMockProvider(),
+    groundedSearch: async () => ({ text, sources: [{ uri: 'https://example.com', title: 'Example' }] }),
+});
+
+const ARTIST = { name: 'Ink Haus', description: 'Fine-line work.', address: '1 Main St', specialties: ['Fine-line'] };
+
+afterEach(() => setAiProvider(null));
+
+describe('findArtists', () => {
+    it('sends the style reference as inline image data', async () => {
+        let sentParts: ContentPart[] = [];
+        setAiProvider({
+            ...createMockProvider(),
+            groundedSearch: async (parts) => {
+                sentParts = parts;
+                return { text: '[]', sources: [] };
+            },
+        });
+        await findArtists('Berlin', dataURLtoFile(PIXEL, 'pixel.png'));
+        const image = sentParts.find(part => 'inlineData' in part);
+        expect(image && `data:${image.inlineData.mimeType};base64,${image.inlineData.data}`).toBe(PIXEL);
+    });
+
+    it('parses a bare JSON array and passes the sources through', async () => {
+        setAiProvider(searchReturning(JSON.stringify([{ ...ARTIST, latitude: 52.5, longitude: 13.4 }])));
+        const { artists, sources } = await findArtists('Berlin');
+        expect(artists).toEqual([{ ...ARTIST, latitude: 52.5, longitude: 13.4 }]);
+        expect(sources).toHaveLength(1);
+    });
+
+    it.each([
+        ['a json code fence', '```json\n[ARTIST]\n```'],
+        ['a plain code fence', '```\n[ARTIST]\n```'],
+        ['text around the fence', 'Here are the artists:\n```json\n[ARTIST]\n```\nHope this helps!'],
+    ])('strips %s', async (_, template) => {
+        setAiProvider(searchReturning(template.replace('ARTIST', JSON.stringify(ARTIST))));
+        const { artists } = await findArtists('Berlin');
+        expect(artists.map(artist => artist.name)).toEqual(['Ink Haus']);
+    });
+
+    it.each([
+        ['prose', 'Sorry, I could not find any artists.'],
+        ['truncated JSON', '[{"name": "Ink Haus", "description": '],
+        ['a single object', JSON.stringify(ARTIST)],
+    ])('rejects %s with a parse error', async (_, text) => {
+        setAiProvider(searchReturning(text));
+        const error = await findArtists('Berlin').catch(e => e);
+        expect(error).toBeInstanceOf(AiError);
+        expect(error.kind).toBe('parse');
+    });
+
+    it('normalises missing, null and string coordinates', async () => {
+        setAiProvider(searchReturning(JSON.stringify([
+            { ...ARTIST, name: 'Missing' },
+            { ...ARTIST, name: 'Null', latitude: null, longitude: null },
+            { ...ARTIST, name: 'Strings', latitude: '52.52', longitude: '13.40' },
+            { ...ARTIST, name: 'Garbage', latitude: 'unknown', longitude: 13.4 },
+        ])));
+        const { artists } = await findArtists('Berlin');
+        expect(artists.map(({ name, latitude, longitude }) => ({ name, latitude, longitude }))).toEqual([
+            { name: 'Missing', latitude: undefined, longitude: undefined },
+            { name: 'Null', latitude: undefined, longitude: undefined },
+            { name: 'Strings', latitude: 52.52, longitude: 13.4 },
+            { name: 'Garbage', latitude: undefined, longitude: 13.4 },
+        ]);
+    });
+});
+
+describe('streamArtistResponse', () => {
+    // Records the history each chat is opened with and replies straight away.
+    const recordChats = () => {
+        const chats: ChatOptions[] = [];
+        setAiProvider({
+            ...createMockProvider(),
+            createChat: (options) => {
+                chats.push(options);
+                return { sendMessage: async () => 'Sure!', sendMessageStream: async () => 'Sure!' };
+            },
+        });
+        return chats;
+    };
+
+    const chatProject = (conversation: ArtistChatProject['conversation']): ArtistChatProject => ({
+        artist: ARTIST,
+        designImage: PIXEL,
+        conversation,
+        contract: createContract(),
+    });
+
+    const hasImage = (parts: ContentPart[]) => parts.some(part => 'inlineData' in part);
+
+    it('opens the history with a user turn when the artist spoke first', async () => {
+        const chats = recordChats();
+        await streamArtistResponse(chatProject([
+            { sender: 'artist', text: 'Hi! Thanks for reaching out.' },
+            { sender: 'user', text: 'Hello!' },
+            { sender: 'artist', text: 'What placement are you thinking?' },
+        ]), 'My forearm.', 'mock-text', () => {});
+
+        const history = chats[0].history!;
+        expect(history.map(turn => turn.role)).toEqual(['user', 'model', 'user', 'model']);
+        expect(hasImage(history[0].parts)).toBe(true);
+        expect(history.slice(1).some(turn => hasImage(turn.parts))).toBe(false);
+    });
+
+    it('attaches the design to the first user message', async () => {
+        const chats = recordChats();
+        await streamArtistResponse(chatProject([
+            { sender: 'user', text: 'Hello!' },
+            { sender: 'user', text: 'Are you booking?' },
+            { sender: 'artist', text: 'Yes, next month.' },
+        ]), 'Great.', 'mock-text', () => {});
+
+        const history = chats[0].history!;
+        expect(history.map(turn => turn.role)).toEqual(['user', 'model']);
+        expect(hasImage(history[0].parts)).toBe(true);
+        expect(history[0].parts.filter(part => 'text' in part)).toHaveLength(3);
+    });
+});
@@ -3,153 +3,90 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
-};
+import { getAiProvider, dataUrlToPart, fileToPart, ChatTurn, ContentPart, InlineDataPart, GroundingSource } from './aiProvider';
+import { AiError, toAiError, withRetry } from './aiErrors';
 
-const handleImageEditApiResponse = (
-    response: GenerateContentResponse,
-    context: string
-): string => {
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
-    }
+import { formatAppointment, formatPrice } from './contractService';
+import { buildDesignPrompt } from './promptBuilder';
+import { DEFAULT_GENERATION_SETTINGS, resolveImageModel } from './generationSettings';
+import type { Artist, Contract, DesignOptions, GenerationSettings } from '../types';
 
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+export type { GroundingSource } from './aiProvider';
 
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        console.log(`Received image data (${mimeType}) for ${context}`);
-        return `data:${mimeType};base64,${data}`;
-    }
-
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
-    }
-    
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image for the ${context}. ` + 
-        (textFeedback ? `Feedback: "${textFeedback}"` : 'No additional feedback was provided.');
-    console.error(errorMessage, { response });
-    throw new Error(errorMessage);
+// Models currently behind design generation and editing, for provenance records.
+export const getDesignModels = (settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS) => {
+    const provider = getAiProvider();
+    return { imageGeneration: resolveImageModel(settings, provider.imageModels).id, imageEdit: provider.models.imageEdit };
 };
 
-export const generateTattooDesign = async (prompt: string, stylePrompt?: string): Promise<string[]> => {
-    const fullPrompt = `
-      Generate a high-quality, professional tattoo design based on the following concept: "${prompt}".
+export const getImageModels = () => getAiProvider().imageModels;
 
-      **Style Guidance:**
-      - The output must be a clean piece of artwork, suitable for a tattoo flash sheet.
-      - Render the design primarily in black ink on a solid, pure white background (#FFFFFF).
-      - Emphasize clear, sharp linework and well-defined shapes. Avoid overly sketchy or blurry styles.
-      - ${stylePrompt ? `Incorporate the following artistic style: "${stylePrompt}".` : 'Use a versatile, modern illustration style.'}
+export const getChatModel = () => getAiProvider().models.text;
 
-      **Negative Constraints (What to AVOID):**
-      - Do NOT show the tattoo on any skin or body part.
-      - Do NOT include any background elements, textures, or colors. The background must be pure white.
-      - Do NOT depict hands, tattoo machines, or any other real-world objects. The image should only contain the artwork itself.
-      - Do NOT generate a photograph of an existing tattoo. This is a design concept.
+// The count, shape, model and seed parts of an image generation request.
+const generationRequestOptions = (settings: GenerationSettings) => {
+    const model = resolveImageModel(settings, getAiProvider().imageModels);
+    return {
+        numberOfImages: Math.min(settings.count, model.maxImages),
+        aspectRatio: settings.aspectRatio,
+        model: model.id,
+        ...(settings.seed !== null && model.supportsSeed ? { seed: settings.seed } : {}),
+    };
+};
 
-      The final image should be centered and ready for an artist to use as a stencil.
-    `;
+export const generateTattooDesign = async (prompt: string, stylePrompt?: string, options?: DesignOptions, settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS, signal?: AbortSignal): Promise<string[]> => {
+    const fullPrompt = buildDesignPrompt({ subject: prompt, stylePrompt, options });
     console.log(`Generating tattoo designs with prompt: "${fullPrompt}"`);
     try {
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
+        const images = await withRetry(() => getAiProvider().generateImages({
             prompt: fullPrompt,
-            config: {
-                numberOfImages: 4,
-                outputMimeType: 'image/png',
-                aspectRatio: '1:1',
-            },
-        });
-        
-        if (!response.generatedImages || response.generatedImages.length === 0) {
-            throw new Error('The AI did not return any images.');
+            outputMimeType: 'image/png',
+            ...generationRequestOptions(settings),
+        }, signal), { signal });
+
+        if (images.length === 0) {
+            throw new AiError('no_image', 'The AI did not return any images.');
         }
 
-        return response.generatedImages.map(img => {
-            const base64ImageBytes: string = img.image.imageBytes;
-            const mimeType = img.image.mimeType;
-            return `data:${mimeType};base64,${base64ImageBytes}`;
-        });
+        return images;
 
     } catch (error) {
         console.error('Error generating tattoo designs:', error);
-        if (error instanceof Error) {
-            throw new Error(`Failed to generate tattoo designs. ${error.message}`);
-        }
-        throw new Error('An unknown error occurred while generating tattoo designs.');
+        throw toAiError(error, 'Failed to generate tattoo designs.');
     }
 };
 
-export const searchReferenceImages = async (prompt: string): Promise<string[]> => {
+export const searchReferenceImages = async (prompt: string, settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS, signal?: AbortSignal): Promise<string[]> => {
     console.log(`Searching for reference images: "${prompt}"`);
     try {
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
+        const images = await withRetry(() => getAiProvider().generateImages({
             prompt: `High-quality, artistic reference image for inspiration: ${prompt}.`,
-            config: {
-                numberOfImages: 4,
-                outputMimeType: 'image/jpeg', // JPEG is fine for references
-                aspectRatio: '1:1',
-            },
-        });
-
-        if (!response.generatedImages || response.generatedImages.length === 0) {
-            throw new Error('The AI did not return any reference images.');
+            outputMimeType: 'image/jpeg', // JPEG is fine for references
+            ...generationRequestOptions(settings),
+        }, signal), { signal });
+
+        if (images.length === 0) {
+            throw new AiError('no_image', 'The AI did not return any reference images.');
         }
 
-        return response.generatedImages.map(img => `data:${img.image.mimeType};base64,${img.image.imageBytes}`);
+        return images;
     } catch (error) {
         console.error('Error searching for reference images:', error);
-        throw new Error(`Failed to find reference images. ${error instanceof Error ? error.message : ''}`);
+        throw toAiError(error, 'Failed to find reference images.');
     }
 };
 
-export const describeImageStyle = async (image: File): Promise<string> => {
+export const describeImageStyle = async (image: File, signal?: AbortSignal): Promise<string> => {
     console.log('Describing image style...');
     const imagePart = await fileToPart(image);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {
-            parts: [
-                imagePart,
-                { text: 'You are an art critic. Concisely describe the artistic style of this image in a way that can be used as a prompt for another AI image generator. Focus on style, mood, and technique (e.g., "fine-line illustration", "bold traditional with heavy blacks", "ethereal watercolor style with soft gradients"). Do not describe the subject matter. Give me only the style description.' },
-            ],
-        },
-    });
-
-    return response.text.trim();
+    return withRetry(() => getAiProvider().describeImage([
+        imagePart,
+        { text: 'You are an art critic. Concisely describe the artistic style of this image in a way that can be used as a prompt for another AI image generator. Focus on style, mood, and technique (e.g., "fine-line illustration", "bold traditional with heavy blacks", "ethereal watercolor style with soft gradients"). Do not describe the subject matter. Give me only the style description.' },
+    ], signal), { signal });
 };
 
-export const blendVirtualTattoo = async (composedImage: File): Promise<string> => {
+export const blendVirtualTattoo = async (composedImage: File, signal?: AbortSignal): Promise<string> => {
     console.log(`Blending virtual tattoo...`);
     const composedImagePart = await fileToPart(composedImage);
 
@@ -171,23 +108,13 @@ export const blendVirtualTattoo = async (composedImage: File): Promise<string> =
         - The final output must be ONLY the edited photograph.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: {
-            parts: [
-                composedImagePart,
-                { text: prompt },
-            ],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-
-    return handleImageEditApiResponse(response, 'virtual tattoo blending');
+    return withRetry(() => getAiProvider().editImage([
+        composedImagePart,
+        { text: prompt },
+    ], 'virtual tattoo blending', signal), { signal });
 };
 
-export const generateTattooStencil = async (image: File): Promise<string> => {
+export const generateTattooStencil = async (image: File, signal?: AbortSignal): Promise<string> => {
     console.log(`Generating tattoo stencil...`);
     const imagePart = await fileToPart(image);
 
@@ -203,48 +130,84 @@ export const generateTattooStencil = async (image: File): Promise<string> => {
         The final output must be ONLY the generated stencil image, suitable for a tattoo artist to use for transfer. Do not add any other elements.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: {
-            parts: [
-                imagePart,
-                { text: fullPrompt },
-            ],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    
-    return handleImageEditApiResponse(response, 'tattoo stencil generation');
+    return withRetry(() => getAiProvider().editImage([
+        imagePart,
+        { text: fullPrompt },
+    ], 'tattoo stencil generation', signal), { signal });
 };
 
 
-export interface Artist {
-    name: string;
-    description: string;
-    address: string;
-    website?: string;
-    specialties?: string[];
-    availability?: string;
-    portfolioUrl?: string;
-    portfolio?: string[];
-    latitude?: number;
-    longitude?: number;
-    styleMatch?: boolean;
-}
+const DESIGN_EDIT_CONSTRAINTS = `
+        **Constraints:**
+        - Keep the result a clean tattoo design on a solid, pure white background (#FFFFFF).
+        - Keep the same artistic style, line quality and overall composition unless asked otherwise.
+        - Do not show the design on skin and do not add text, watermarks or other artifacts.
+        - The final output must be ONLY the design image.
+`;
+
+// Number of "more like this" results per request.
+export const VARIATION_COUNT = 3;
+
+export const generateDesignVariations = async (design: string, signal?: AbortSignal): Promise<string[]> => {
+    console.log(`Generating ${VARIATION_COUNT} design variations...`);
+    const designPart = dataUrlToPart(design);
+    const prompt = `
+        You are a professional tattoo designer. Create a new variation of the provided tattoo design.
+        Keep the subject, style and mood, but explore a different composition, pose or arrangement of details so it reads as a fresh take rather than a copy.
+        ${DESIGN_EDIT_CONSTRAINTS}
+    `;
 
-export interface GroundingSource {
-    uri: string;
-    title: string;
-}
+    return Promise.all(Array.from({ length: VARIATION_COUNT }, () =>
+        withRetry(() => getAiProvider().editImage([designPart, { text: prompt }], 'design variation', signal), { signal })
+    ));
+};
+
+export const editTattooDesign = async (design: string, instruction: string, signal?: AbortSignal): Promise<string> => {
+    console.log(`Editing design: "${instruction}"`);
+    const prompt = `
+        You are a professional tattoo designer. Edit the provided tattoo design as follows: "${instruction}".
+        Change only what the instruction asks for and leave the rest of the design as it is.
+        ${DESIGN_EDIT_CONSTRAINTS}
+    `;
+
+    const designPart = dataUrlToPart(design);
+    return withRetry(() => getAiProvider().editImage([designPart, { text: prompt }], 'design edit', signal), { signal });
+};
+
+// The mask is white where the design may change and black elsewhere. The
+// model cannot be trusted to respect it exactly, so callers should composite
+// the result back through the mask.
+export const inpaintTattooDesign = async (design: string, mask: string, instruction: string, signal?: AbortSignal): Promise<string> => {
+    console.log(`Inpainting design: "${instruction}"`);
+    const prompt = `
+        You are a professional tattoo designer. The first image is a tattoo design. The second image is a mask of the same size: white marks the area to change, black marks the area to keep.
+        Inside the white area only, change the design as follows: "${instruction}". The change must blend seamlessly with the surrounding linework.
+        Everything in the black area must stay exactly as it is. Return the full design, not just the edited area, and do not return the mask.
+        ${DESIGN_EDIT_CONSTRAINTS}
+    `;
+
+    const parts = [dataUrlToPart(design), dataUrlToPart(mask), { text: prompt }];
+    return withRetry(() => getAiProvider().editImage(parts, 'design inpainting', signal), { signal });
+};
 
 export interface ArtistSearchResult {
     artists: Artist[];
     sources: GroundingSource[];
 }
 
-export const findArtists = async (location: string, image?: File | null): Promise<ArtistSearchResult> => {
+// The model sometimes wraps its JSON in a code fence, with or without a language tag.
+const extractJson = (text: string): string => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    return (fenced ? fenced[1] : text).trim();
+};
+
+// Coordinates can come back missing, null or as strings; the map only plots real numbers.
+const toCoordinate = (value: unknown): number | undefined => {
+    const coordinate = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof coordinate === 'number' && Number.isFinite(coordinate) ? coordinate : undefined;
+};
+
+export const findArtists = async (location: string, image?: File | null, signal?: AbortSignal): Promise<ArtistSearchResult> => {
     console.log(`Finding artists near: "${location}"`, image ? "with image style reference." : "");
     const textPrompt = `
         You are an expert data extractor. Your task is to find tattoo artists and studios in "${location}" and return the data in a specific JSON format.
@@ -271,7 +234,7 @@ export const findArtists = async (location: string, image?: File | null): Promis
         - Latitude and Longitude are mandatory. You must find the coordinates for the given address.
     `;
     
-    const parts: any[] = [];
+    const parts: ContentPart[] = [];
     if (image) {
         const imagePart = await fileToPart(image);
         parts.push(imagePart);
@@ -279,79 +242,107 @@ export const findArtists = async (location: string, image?: File | null): Promis
     parts.push({ text: textPrompt });
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: { parts: parts },
-            config: {
-                tools: [{googleSearch: {}}],
-            },
-        });
-
-        const text = response.text.trim();
+        const { text, sources } = await withRetry(() => getAiProvider().groundedSearch(parts, signal), { signal });
         let artists: Artist[] = [];
 
         try {
-            const jsonString = text.replace(/^```json|```$/g, '').trim();
-            artists = JSON.parse(jsonString);
+            const parsed = JSON.parse(extractJson(text));
+            if (!Array.isArray(parsed)) throw new Error('Expected a JSON array of artists');
+            artists = parsed.map(artist => ({ ...artist, latitude: toCoordinate(artist.latitude), longitude: toCoordinate(artist.longitude) }));
         } catch (e) {
             console.error("Failed to parse JSON from model response:", e, "Raw response:", text);
-            throw new Error("The AI returned a response that could not be understood. Please try a different search.");
+            throw new AiError('parse', "The AI returned a response that could not be understood. Please try a different search.", e);
         }
 
-        const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
-        const sources: GroundingSource[] = groundingChunks
-            .map((chunk: any) => chunk.web)
-            .filter((web: any) => web?.uri && web?.title)
-            .reduce((acc: GroundingSource[], current: any) => { // Remove duplicates
-                if (!acc.find(item => item.uri === current.uri)) {
-                    acc.push(current);
-                }
-                return acc;
-            }, []);
-
         return { artists, sources };
 
     } catch (error) {
         console.error('Error finding artists:', error);
-        throw new Error(`Failed to find artists. ${error instanceof Error ? error.message : ''}`);
+        throw toAiError(error, 'Failed to find artists.');
     }
 };
 
-export const generateArtistResponse = async (
-    conversationHistory: { sender: string; text: string }[], 
-    artist: Artist, 
+export interface ArtistChatMessage {
+    sender: 'user' | 'artist';
+    text: string;
+}
+
+export interface ArtistChatProject {
+    artist: Artist;
+    designImage: string;
+    conversation: ArtistChatMessage[];
+    contract: Contract;
+}
+
+const DESIGN_ATTACHMENT_NOTE = 'This is the tattoo design for our project.';
+
+// Groups the stored conversation into alternating chat turns. The design image
+// rides along with the first user turn so the artist can see what is discussed.
+const buildChatHistory = (conversation: ArtistChatMessage[], designPart: InlineDataPart): ChatTurn[] => {
+    const history: ChatTurn[] = [];
+    for (const message of conversation) {
+        const role = message.sender === 'user' ? 'user' : 'model';
+        const last = history[history.length - 1];
+        if (last && last.role === role) {
+            last.parts.push({ text: message.text });
+        } else {
+            history.push({ role, parts: [{ text: message.text }] });
+        }
+    }
+
+    // Chat history must open with a user turn, so a conversation the artist
+    // started (e.g. with a greeting) gets one that just shares the design.
+    if (history[0]?.role === 'model') {
+        history.unshift({ role: 'user', parts: [designPart, { text: DESIGN_ATTACHMENT_NOTE }] });
+    } else if (history[0]) {
+        history[0].parts.unshift(designPart, { text: DESIGN_ATTACHMENT_NOTE });
+    }
+    return history;
+};
+
+export const streamArtistResponse = async (
+    project: ArtistChatProject,
     userMessage: string,
-    model: string
+    model: string,
+    onChunk: (delta: string) => void,
+    signal?: AbortSignal
 ): Promise<string> => {
-    console.log(`Generating artist response using ${model}...`);
+    console.log(`Streaming artist response using ${model}...`);
+    const { artist, contract } = project;
 
-    const history = conversationHistory.map(m => ({
-        role: m.sender === 'user' ? 'user' : 'model',
-        parts: [{ text: m.text }]
-    }));
-    
-    // Remove last message from history, as it's the current user message
-    history.pop(); 
+    const designPart = dataUrlToPart(project.designImage);
+    const history = buildChatHistory(project.conversation, designPart);
+    // A fresh conversation has no user turn to carry the design, so send it with this message.
+    const message: string | ContentPart[] = history.length > 0
+        ? userMessage
+        : [designPart, { text: DESIGN_ATTACHMENT_NOTE }, { text: userMessage }];
 
     const systemInstruction = `
         You are roleplaying as ${artist.name}, a professional tattoo artist.
         Your persona: You are helpful, professional, and passionate about your craft.
         Your specialties are: ${artist.specialties?.join(', ') || 'various styles'}.
         Your availability is: ${artist.availability || 'not specified'}.
+
+        Project state:
+        - The client has shared their tattoo design with you (attached to the conversation).
+        - Contract status: ${contract.status}.
+        - Agreed price: ${formatPrice(contract.price)}.
+        - Appointment: ${formatAppointment(contract.appointmentDate)}.
         
         Instructions:
         - Respond to the user's message in a conversational and helpful way, staying in character as the artist.
         - Keep your responses concise and to the point.
         - You can discuss tattoo ideas, placement, pricing concepts (give estimates, not firm quotes), and scheduling.
+        - Stay consistent with everything said earlier in the conversation and with the project state above.
         - Do not break character. Do not mention that you are an AI.
     `;
 
+    // Not retried: chunks already shown to the user can't be taken back.
     try {
-        const chat = ai.chats.create({ model, config: { systemInstruction } });
-        const response = await chat.sendMessage({ message: userMessage });
-        return response.text.trim();
+        const chat = getAiProvider().createChat({ model, systemInstruction, history });
+        return await chat.sendMessageStream(message, onChunk, signal);
     } catch (error) {
         console.error('Error generating artist response:', error);
-        throw new Error('Failed to get a response from the artist AI.');
+        throw toAiError(error, 'Failed to get a response from the artist AI.');
     }
-};
\ No newline at end of file
+};
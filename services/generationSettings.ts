@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationAspectRatio, GenerationSettings } from '../types';
+import type { ImageModelInfo } from './aiProvider';
+
+// Generation settings are a preference rather than project data, so they
+// live in localStorage and survive reloads and resets.
+
+const STORAGE_KEY = 'inkgenius-generation-settings';
+
+export const MAX_IMAGE_COUNT = 4;
+
+export const ASPECT_RATIOS: { value: GenerationAspectRatio; label: string; hint: string }[] = [
+    { value: '1:1', label: 'Square', hint: 'Most pieces' },
+    { value: '3:4', label: 'Portrait', hint: 'Forearm, calf, back' },
+    { value: '9:16', label: 'Tall', hint: 'Sleeves, spine' },
+    { value: '16:9', label: 'Wide', hint: 'Chest, bands' },
+];
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+    count: MAX_IMAGE_COUNT,
+    aspectRatio: '1:1',
+    model: null,
+    seed: null,
+};
+
+// Stored values are checked field by field, so a setting from an older
+// version can't break generation.
+export const loadGenerationSettings = (): GenerationSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (!saved || typeof saved !== 'object') return DEFAULT_GENERATION_SETTINGS;
+        return {
+            count: Number.isInteger(saved.count) && saved.count >= 1 && saved.count <= MAX_IMAGE_COUNT ? saved.count : DEFAULT_GENERATION_SETTINGS.count,
+            aspectRatio: ASPECT_RATIOS.some(ratio => ratio.value === saved.aspectRatio) ? saved.aspectRatio : DEFAULT_GENERATION_SETTINGS.aspectRatio,
+            model: typeof saved.model === 'string' ? saved.model : null,
+            seed: Number.isInteger(saved.seed) ? saved.seed : null,
+        };
+    } catch (error) {
+        console.error('Discarding unreadable generation settings', error);
+        return DEFAULT_GENERATION_SETTINGS;
+    }
+};
+
+export const saveGenerationSettings = (settings: GenerationSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Failed to save generation settings', error);
+    }
+};
+
+// The model a request will actually use. A saved model the provider doesn't
+// offer (e.g. after switching providers) falls back to the default.
+export const resolveImageModel = (settings: GenerationSettings, models: ImageModelInfo[]): ImageModelInfo =>
+    models.find(model => model.id === settings.model) ?? models[0];
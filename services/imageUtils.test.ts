@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { blobToDataURL, dataURLtoBlob, dataURLtoFile, isDataURL } from './imageUtils';
+
+// 1x1 transparent PNG.
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+describe('isDataURL', () => {
+    it('accepts base64 data URLs only', () => {
+        expect(isDataURL(PIXEL)).toBe(true);
+        expect(isDataURL('data:text/plain,hello')).toBe(false);
+        expect(isDataURL('https://example.com/a.png')).toBe(false);
+        expect(isDataURL(42)).toBe(false);
+    });
+});
+
+describe('dataURLtoFile', () => {
+    it('keeps the name, MIME type and bytes', async () => {
+        const file = dataURLtoFile(PIXEL, 'pixel.png');
+        expect(file.name).toBe('pixel.png');
+        expect(file.type).toBe('image/png');
+        expect(await blobToDataURL(file)).toBe(PIXEL);
+    });
+
+    it('rejects malformed data URLs', () => {
+        expect(() => dataURLtoFile('not a data url', 'x.png')).toThrow('Invalid data URL');
+        expect(() => dataURLtoBlob('data:,AAAA')).toThrow('Could not parse MIME type');
+    });
+});
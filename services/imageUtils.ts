@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const isDataURL = (value: unknown): value is string =>
+    typeof value === 'string' && value.startsWith('data:') && value.includes(';base64,');
+
+export const dataURLtoBlob = (dataurl: string): Blob => {
+    const arr = dataurl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mime = mimeMatch[1];
+    const bstr = atob(arr[1]);
+    let n = bstr.length;
+    const u8arr = new Uint8Array(n);
+    while(n--){
+        u8arr[n] = bstr.charCodeAt(n);
+    }
+    return new Blob([u8arr], {type:mime});
+};
+
+export const dataURLtoFile = (dataurl: string, filename: string): File => {
+    const blob = dataURLtoBlob(dataurl);
+    return new File([blob], filename, {type: blob.type});
+};
+
+export const blobToDataURL = (blob: Blob): Promise<string> =>
+    new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(blob);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+
+// Recursively replaces every value for which `convert` returns a replacement.
+// `path` holds the keys leading to the value, e.g. ['versions', '0', 'image'].
+// The result's shape is only known to the caller, which narrows it.
+export const mapDeep = async <T>(
+    value: unknown,
+    convert: (value: unknown, path: string[]) => Promise<T> | undefined,
+    path: string[] = []
+): Promise<unknown> => {
+    const converted = convert(value, path);
+    if (converted !== undefined) return converted;
+    if (Array.isArray(value)) {
+        return Promise.all(value.map((item, index) => mapDeep(item, convert, [...path, String(index)])));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Blob)) {
+        const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await mapDeep(item, convert, [...path, key])]));
+        return Object.fromEntries(entries);
+    }
+    return value;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('The image could not be loaded.'));
+        img.src = src;
+    });
+
+// Takes `edited` inside the white area of `mask` and `original` everywhere
+// else. The mask edge is feathered so the seam does not show.
+export const compositeThroughMask = async (original: string, edited: string, mask: string, feather = 4): Promise<string> => {
+    const [originalImage, editedImage, maskImage] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+    const width = originalImage.naturalWidth;
+    const height = originalImage.naturalHeight;
+
+    const createCanvas = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas is not supported in this browser.');
+        return { canvas, ctx };
+    };
+
+    // Turn the mask's luminance into alpha so it can be used with destination-in.
+    const alphaMask = createCanvas();
+    alphaMask.ctx.filter = `blur(${feather}px)`;
+    alphaMask.ctx.drawImage(maskImage, 0, 0, width, height);
+    const maskData = alphaMask.ctx.getImageData(0, 0, width, height);
+    for (let i = 0; i < maskData.data.length; i += 4) {
+        maskData.data[i + 3] = maskData.data[i];
+    }
+    alphaMask.ctx.putImageData(maskData, 0, 0);
+
+    const patch = createCanvas();
+    patch.ctx.drawImage(editedImage, 0, 0, width, height);
+    patch.ctx.globalCompositeOperation = 'destination-in';
+    patch.ctx.drawImage(alphaMask.canvas, 0, 0);
+
+    const result = createCanvas();
+    result.ctx.drawImage(originalImage, 0, 0);
+    result.ctx.drawImage(patch.canvas, 0, 0);
+    return result.canvas.toDataURL('image/png');
+};
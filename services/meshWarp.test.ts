@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createCylindricalWarp, createMeshWarp, evaluateMeshWarp, isIdentityWarp, MESH_SIZE, moveWarpPoint } from './meshWarp';
+
+describe('createMeshWarp', () => {
+    it('spreads the control points evenly over the layer', () => {
+        const warp = createMeshWarp();
+        expect(warp.points).toHaveLength(MESH_SIZE * MESH_SIZE);
+        expect(warp.points[0]).toEqual({ x: 0, y: 0 });
+        expect(warp.points[MESH_SIZE - 1]).toEqual({ x: 1, y: 0 });
+        expect(warp.points.at(-1)).toEqual({ x: 1, y: 1 });
+        expect(isIdentityWarp(warp)).toBe(true);
+    });
+});
+
+describe('isIdentityWarp', () => {
+    it('treats a missing warp as the identity', () => {
+        expect(isIdentityWarp(undefined)).toBe(true);
+    });
+
+    it('detects a moved point', () => {
+        expect(isIdentityWarp(moveWarpPoint(createMeshWarp(), 5, { x: 0.5, y: 0.5 }))).toBe(false);
+    });
+});
+
+describe('evaluateMeshWarp', () => {
+    it('maps every point to itself without a warp', () => {
+        const warp = createMeshWarp();
+        for (const [u, v] of [[0, 0], [0.25, 0.8], [0.5, 0.5], [1, 1]]) {
+            const point = evaluateMeshWarp(warp, u, v);
+            expect(point.x).toBeCloseTo(u);
+            expect(point.y).toBeCloseTo(v);
+        }
+    });
+
+    it('passes through the control points', () => {
+        const warp = moveWarpPoint(createMeshWarp(), 5, { x: 0.5, y: 0.2 });
+        const point = evaluateMeshWarp(warp, 1 / 3, 1 / 3);
+        expect(point.x).toBeCloseTo(0.5);
+        expect(point.y).toBeCloseTo(0.2);
+    });
+
+    it('clamps coordinates outside the layer to its edges', () => {
+        const warp = createMeshWarp();
+        expect(evaluateMeshWarp(warp, -1, 2)).toEqual(evaluateMeshWarp(warp, 0, 1));
+    });
+});
+
+describe('createCylindricalWarp', () => {
+    it('is the identity at zero curvature', () => {
+        expect(isIdentityWarp(createCylindricalWarp(0))).toBe(true);
+    });
+
+    it('keeps the edges and foreshortens the design towards them around a vertical axis', () => {
+        const warp = createCylindricalWarp(1);
+        const row = warp.points.slice(0, MESH_SIZE).map(point => point.x);
+        expect(row[0]).toBeCloseTo(0);
+        expect(row[MESH_SIZE - 1]).toBeCloseTo(1);
+        // The outer strips are foreshortened, so the inner columns move out towards the edges.
+        expect(row[1]).toBeLessThan(1 / 3);
+        expect(row[2]).toBeGreaterThan(2 / 3);
+        // Horizontal lines bow: their ends sag below their middle.
+        expect(warp.points[0].y).toBeGreaterThan(warp.points[1].y);
+    });
+
+    it('wraps along y instead around a horizontal axis', () => {
+        const warp = createCylindricalWarp(1, 'horizontal');
+        expect(warp.axis).toBe('horizontal');
+        const column = warp.points.filter((_, i) => i % MESH_SIZE === 0).map(point => point.y);
+        expect(column[1]).toBeLessThan(1 / 3);
+        expect(warp.points[0].x).toBeGreaterThan(warp.points[MESH_SIZE].x);
+    });
+
+    it('clamps the curvature to 0..1', () => {
+        expect(createCylindricalWarp(5)).toEqual(createCylindricalWarp(1));
+        expect(createCylindricalWarp(-1).curvature).toBe(0);
+    });
+});
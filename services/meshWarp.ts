@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { MeshWarp, WarpAxis } from '../types';
+
+// Control points per side of the mesh.
+export const MESH_SIZE = 4;
+// Each mesh cell is drawn as this many quads per side, so the spline reads as a curve.
+const CELL_SUBDIVISIONS = 8;
+// Widest wrap the curvature slider reaches, i.e. how much of the limb's circumference is visible.
+const MAX_WRAP_ANGLE = (150 * Math.PI) / 180;
+// How far the ends of lines across the limb sag, as a fraction of the layer, at full curvature.
+const MAX_BOW = 0.08;
+
+type Point = { x: number; y: number };
+
+export const createMeshWarp = (axis: WarpAxis = 'vertical', size = MESH_SIZE): MeshWarp => {
+    const points: Point[] = [];
+    for (let row = 0; row < size; row++) {
+        for (let column = 0; column < size; column++) {
+            points.push({ x: column / (size - 1), y: row / (size - 1) });
+        }
+    }
+    return { columns: size, rows: size, points, curvature: 0, axis };
+};
+
+// Maps the flat design onto the visible half of a cylinder. With a vertical
+// axis (a forearm held upright) the design is compressed towards its left and
+// right edges and horizontal lines bow, as they do on a real limb.
+export const createCylindricalWarp = (curvature: number, axis: WarpAxis = 'vertical', size = MESH_SIZE): MeshWarp => {
+    const amount = Math.min(Math.max(curvature, 0), 1);
+    const mesh = createMeshWarp(axis, size);
+    if (amount === 0) return mesh;
+
+    const wrapAngle = amount * MAX_WRAP_ANGLE;
+    const edgeSin = Math.sin(wrapAngle / 2);
+    const edgeCos = Math.cos(wrapAngle / 2);
+    const wrap = (across: number) => {
+        const angle = (across - 0.5) * wrapAngle;
+        return {
+            across: 0.5 + Math.sin(angle) / (2 * edgeSin),
+            bow: MAX_BOW * amount * (1 - Math.cos(angle)) / (1 - edgeCos),
+        };
+    };
+
+    return {
+        ...mesh,
+        curvature: amount,
+        points: mesh.points.map(point => {
+            if (axis === 'vertical') {
+                const { across, bow } = wrap(point.x);
+                return { x: across, y: point.y + bow };
+            }
+            const { across, bow } = wrap(point.y);
+            return { x: point.x + bow, y: across };
+        }),
+    };
+};
+
+export const isIdentityWarp = (warp: MeshWarp | undefined): boolean => {
+    if (!warp) return true;
+    const identity = createMeshWarp(warp.axis, warp.columns);
+    return warp.rows === warp.columns && warp.points.every((point, i) =>
+        Math.abs(point.x - identity.points[i].x) < 1e-6 && Math.abs(point.y - identity.points[i].y) < 1e-6
+    );
+};
+
+export const moveWarpPoint = (warp: MeshWarp, index: number, point: Point): MeshWarp => ({
+    ...warp,
+    points: warp.points.map((p, i) => i === index ? point : p),
+});
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) =>
+    0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+
+// Control point lookup that extrapolates linearly past the edges, so the
+// spline keeps its direction at the border instead of flattening out.
+const controlPoint = (warp: MeshWarp, column: number, row: number): Point => {
+    if (column < 0) return extrapolate(controlPoint(warp, 0, row), controlPoint(warp, 1, row));
+    if (column >= warp.columns) return extrapolate(controlPoint(warp, warp.columns - 1, row), controlPoint(warp, warp.columns - 2, row));
+    if (row < 0) return extrapolate(controlPoint(warp, column, 0), controlPoint(warp, column, 1));
+    if (row >= warp.rows) return extrapolate(controlPoint(warp, column, warp.rows - 1), controlPoint(warp, column, warp.rows - 2));
+    return warp.points[row * warp.columns + column];
+};
+
+const extrapolate = (edge: Point, inner: Point): Point => ({ x: 2 * edge.x - inner.x, y: 2 * edge.y - inner.y });
+
+const segment = (value: number, count: number) => {
+    const scaled = Math.min(Math.max(value, 0), 1) * (count - 1);
+    const index = Math.min(Math.floor(scaled), count - 2);
+    return { index, t: scaled - index };
+};
+
+// Position of the design point (u, v), both 0..1, after warping.
+export const evaluateMeshWarp = (warp: MeshWarp, u: number, v: number): Point => {
+    const col = segment(u, warp.columns);
+    const row = segment(v, warp.rows);
+    const across = [-1, 0, 1, 2].map(dr => {
+        const r = row.index + dr;
+        const [p0, p1, p2, p3] = [-1, 0, 1, 2].map(dc => controlPoint(warp, col.index + dc, r));
+        return {
+            x: catmullRom(p0.x, p1.x, p2.x, p3.x, col.t),
+            y: catmullRom(p0.y, p1.y, p2.y, p3.y, col.t),
+        };
+    });
+    return {
+        x: catmullRom(across[0].x, across[1].x, across[2].x, across[3].x, row.t),
+        y: catmullRom(across[0].y, across[1].y, across[2].y, across[3].y, row.t),
+    };
+};
+
+// Draws the source triangle of the image onto the destination triangle with
+// an affine transform. The clip is pushed out slightly so neighbouring
+// triangles overlap and no hairline seams show.
+const drawTriangle = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, src: Point[], dst: Point[]) => {
+    const [s0, s1, s2] = src;
+    const [d0, d1, d2] = dst;
+    const denominator = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y);
+    if (Math.abs(denominator) < 1e-9) return;
+
+    const a = ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) / denominator;
+    const b = ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) / denominator;
+    const c = ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) / denominator;
+    const d = ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) / denominator;
+    const e = d0.x - a * s0.x - c * s0.y;
+    const f = d0.y - b * s0.x - d * s0.y;
+
+    const centerX = (d0.x + d1.x + d2.x) / 3;
+    const centerY = (d0.y + d1.y + d2.y) / 3;
+    const inflate = (p: Point) => {
+        const dx = p.x - centerX;
+        const dy = p.y - centerY;
+        const length = Math.hypot(dx, dy) || 1;
+        return { x: p.x + (dx / length) * 0.75, y: p.y + (dy / length) * 0.75 };
+    };
+    const [c0, c1, c2] = dst.map(inflate);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(c0.x, c0.y);
+    ctx.lineTo(c1.x, c1.y);
+    ctx.lineTo(c2.x, c2.y);
+    ctx.closePath();
+    ctx.clip();
+    ctx.transform(a, b, c, d, e, f);
+    ctx.drawImage(image, 0, 0);
+    ctx.restore();
+};
+
+// Renders the image warped into a width x height layer. The warp may push the
+// design outside that rectangle, so the canvas covers the warped bounds and
+// `x`/`y` give its offset from the layer's top-left corner.
+export const renderMeshWarp = (
+    image: HTMLImageElement | HTMLCanvasElement,
+    warp: MeshWarp,
+    width: number,
+    height: number
+): { canvas: HTMLCanvasElement; x: number; y: number } => {
+    const columns = (warp.columns - 1) * CELL_SUBDIVISIONS;
+    const rows = (warp.rows - 1) * CELL_SUBDIVISIONS;
+    const grid: Point[] = [];
+    for (let row = 0; row <= rows; row++) {
+        for (let column = 0; column <= columns; column++) {
+            const point = evaluateMeshWarp(warp, column / columns, row / rows);
+            grid.push({ x: point.x * width, y: point.y * height });
+        }
+    }
+
+    const minX = Math.floor(Math.min(...grid.map(p => p.x)));
+    const minY = Math.floor(Math.min(...grid.map(p => p.y)));
+    const maxX = Math.ceil(Math.max(...grid.map(p => p.x)));
+    const maxY = Math.ceil(Math.max(...grid.map(p => p.y)));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, maxX - minX);
+    canvas.height = Math.max(1, maxY - minY);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    ctx.translate(-minX, -minY);
+
+    const imageWidth = image.width;
+    const imageHeight = image.height;
+    const source = (column: number, row: number): Point => ({ x: (column / columns) * imageWidth, y: (row / rows) * imageHeight });
+    const target = (column: number, row: number): Point => grid[row * (columns + 1) + column];
+
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            const corners: [number, number][] = [[column, row], [column + 1, row], [column + 1, row + 1], [column, row + 1]];
+            const src = corners.map(([c, r]) => source(c, r));
+            const dst = corners.map(([c, r]) => target(c, r));
+            drawTriangle(ctx, image, [src[0], src[1], src[2]], [dst[0], dst[1], dst[2]]);
+            drawTriangle(ctx, image, [src[0], src[2], src[3]], [dst[0], dst[2], dst[3]]);
+        }
+    }
+
+    return { canvas, x: minX, y: minY };
+};
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AiProvider, ChatOptions, ContentPart, GroundedSearchResult, ImageGenerationRequest, TextPart } from './aiProvider';
+import { AiError, sleep } from './aiErrors';
+
+// Offline stand-in for the Gemini adapter. Every answer is derived from the
+// request alone, so the same input always yields the same fixture.
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNK_MS = 40;
+
+// FNV-1a, good enough to turn a prompt into stable fixture variations.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const svgToDataUrl = (svg: string): string => `data:image/svg+xml;base64,${btoa(svg)}`;
+
+export const createFixtureDesign = (seed: string, index: number): string => {
+    const hash = hashString(`${seed}#${index}`);
+    const petals = 5 + (hash % 7);
+    const innerRadius = 60 + ((hash >>> 3) % 60);
+    const strokeWidth = 6 + ((hash >>> 7) % 10);
+    const rotation = (hash >>> 11) % 360;
+
+    const petalPaths = Array.from({ length: petals }, (_, i) => {
+        const angle = (360 / petals) * i;
+        return `<ellipse cx="256" cy="${256 - innerRadius - 50}" rx="34" ry="70" transform="rotate(${angle} 256 256)" />`;
+    }).join('');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">` +
+        `<rect width="512" height="512" fill="#ffffff" />` +
+        `<g fill="none" stroke="#111111" stroke-width="${strokeWidth}" transform="rotate(${rotation} 256 256)">` +
+        petalPaths +
+        `<circle cx="256" cy="256" r="${innerRadius}" />` +
+        `<circle cx="256" cy="256" r="${Math.round(innerRadius / 3)}" fill="#111111" />` +
+        `</g></svg>`;
+
+    return svgToDataUrl(svg);
+};
+
+const createFixtureReference = (seed: string, index: number): string => {
+    const hash = hashString(`${seed}@${index}`);
+    const hue = hash % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">` +
+        `<rect width="512" height="512" fill="hsl(${hue}, 45%, 82%)" />` +
+        `<circle cx="${128 + (hash % 256)}" cy="${128 + ((hash >>> 8) % 256)}" r="110" fill="hsl(${(hue + 180) % 360}, 55%, 35%)" />` +
+        `<path d="M0 420 Q 256 ${300 + ((hash >>> 16) % 120)} 512 420 L 512 512 L 0 512 Z" fill="hsl(${(hue + 60) % 360}, 40%, 25%)" />` +
+        `</svg>`;
+    return svgToDataUrl(svg);
+};
+
+const firstImagePart = (parts: ContentPart[]) =>
+    parts.find((part): part is Extract<ContentPart, { inlineData: unknown }> => 'inlineData' in part);
+
+const FIXTURE_ARTISTS = [
+    {
+        name: 'Iron Lotus Tattoo',
+        description: 'Bold traditional flash and custom neo-traditional pieces.',
+        address: '123 Bowery, New York, NY 10002',
+        latitude: 40.7205,
+        longitude: -73.9937,
+        website: 'https://example.com/iron-lotus',
+        specialties: ['Traditional', 'Neo-traditional'],
+        availability: 'Accepting new clients',
+        portfolioUrl: null,
+        portfolio: [],
+    },
+    {
+        name: 'Fine Line Atelier',
+        description: 'Delicate single-needle botanicals and script.',
+        address: '45 Grand St, Brooklyn, NY 11249',
+        latitude: 40.7146,
+        longitude: -73.9654,
+        website: null,
+        specialties: ['Fine-line', 'Botanical'],
+        availability: 'Books opening soon',
+        portfolioUrl: null,
+        portfolio: [],
+    },
+    {
+        name: 'Black Tide Studio',
+        description: 'Large-scale blackwork and Japanese-inspired sleeves.',
+        address: '310 W 14th St, New York, NY 10014',
+        latitude: 40.7397,
+        longitude: -74.0037,
+        website: 'https://example.com/black-tide',
+        specialties: ['Blackwork', 'Japanese Traditional'],
+        availability: 'Books currently closed',
+        portfolioUrl: null,
+        portfolio: [],
+    },
+];
+
+export const createMockProvider = (): AiProvider => ({
+    name: 'mock',
+    models: {
+        imageGeneration: 'mock-image-generation',
+        imageEdit: 'mock-image-edit',
+        text: 'mock-text',
+    },
+    imageModels: [
+        { id: 'mock-image-generation', label: 'Mock Fixtures', maxImages: 4, supportsSeed: true },
+    ],
+
+    generateImages: async (request: ImageGenerationRequest, signal?: AbortSignal) => {
+        await sleep(MOCK_LATENCY_MS, signal);
+        const create = request.outputMimeType === 'image/jpeg' ? createFixtureReference : createFixtureDesign;
+        // A seed picks a different, but still repeatable, set of fixtures.
+        const seed = request.seed === undefined ? request.prompt : `${request.prompt}~${request.seed}`;
+        return Array.from({ length: request.numberOfImages }, (_, i) => create(seed, i));
+    },
+
+    editImage: async (parts: ContentPart[], context: string, signal?: AbortSignal) => {
+        await sleep(MOCK_LATENCY_MS, signal);
+        const image = firstImagePart(parts);
+        if (!image) {
+            throw new AiError('no_image', `The AI model did not return an image for the ${context}. No additional feedback was provided.`);
+        }
+        // Echo the input image back; edits are a no-op offline.
+        return `data:${image.inlineData.mimeType};base64,${image.inlineData.data}`;
+    },
+
+    describeImage: async (_parts: ContentPart[], signal?: AbortSignal) => {
+        await sleep(MOCK_LATENCY_MS, signal);
+        return 'Bold fine-line illustration with heavy black outlines and minimal stippled shading';
+    },
+
+    groundedSearch: async (_parts: ContentPart[], signal?: AbortSignal): Promise<GroundedSearchResult> => {
+        await sleep(MOCK_LATENCY_MS, signal);
+        return {
+            text: JSON.stringify(FIXTURE_ARTISTS),
+            sources: [{ uri: 'https://example.com/tattoo-directory', title: 'Example Tattoo Directory' }],
+        };
+    },
+
+    createChat: ({ history = [] }: ChatOptions) => {
+        let turns = history.length;
+        const reply = (message: string | ContentPart[]) => {
+            const text = typeof message === 'string'
+                ? message
+                : message.filter((part): part is TextPart => 'text' in part).map(part => part.text).join(' ');
+            turns += 2;
+            return `Thanks for the message! You said: "${text}". Happy to talk through placement, sizing and an estimate (${turns} messages so far).`;
+        };
+        return {
+            sendMessage: async (message: string | ContentPart[], signal?: AbortSignal) => {
+                await sleep(MOCK_LATENCY_MS, signal);
+                return reply(message);
+            },
+            sendMessageStream: async (message: string | ContentPart[], onChunk: (delta: string) => void, signal?: AbortSignal) => {
+                await sleep(MOCK_LATENCY_MS, signal);
+                const text = reply(message);
+                for (const word of text.split(/(?<= )/)) {
+                    await sleep(MOCK_STREAM_CHUNK_MS, signal);
+                    onChunk(word);
+                }
+                return text;
+            },
+        };
+    },
+});
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DesignOptions, InkColor } from '../types';
+import { loadImage } from './imageUtils';
+
+// Ink palettes for color designs: extraction from a reference image, snapping
+// a generated design to the chosen inks, and measuring how much of the design
+// each ink covers. Colors are compared in CIE Lab so "nearest" matches what
+// the eye sees rather than raw RGB distance.
+
+export const MAX_PALETTE_SIZE = 8;
+
+export const INK_BLACK: InkColor = { name: 'Black', hex: '#111111' };
+const SKIN_WHITE: InkColor = { name: 'Bare skin', hex: '#ffffff' };
+
+export const PALETTE_PRESETS: { name: string; colors: InkColor[] }[] = [
+    {
+        name: 'Traditional',
+        colors: [
+            { name: 'Red', hex: '#c62828' },
+            { name: 'Yellow', hex: '#f9a825' },
+            { name: 'Green', hex: '#2e7d32' },
+            { name: 'Brown', hex: '#6d4c41' },
+        ],
+    },
+    {
+        name: 'Jewel Tones',
+        colors: [
+            { name: 'Crimson', hex: '#9b1d3a' },
+            { name: 'Teal', hex: '#00796b' },
+            { name: 'Gold', hex: '#d4a017' },
+            { name: 'Purple', hex: '#5e35b1' },
+            { name: 'Rose', hex: '#e57373' },
+        ],
+    },
+    {
+        name: 'Irezumi',
+        colors: [
+            { name: 'Vermilion', hex: '#e34234' },
+            { name: 'Indigo', hex: '#283593' },
+            { name: 'Sakura', hex: '#f48fb1' },
+            { name: 'Jade', hex: '#4caf50' },
+        ],
+    },
+    {
+        name: 'Pastel',
+        colors: [
+            { name: 'Blush', hex: '#f8bbd0' },
+            { name: 'Lavender', hex: '#b39ddb' },
+            { name: 'Mint', hex: '#a5d6a7' },
+            { name: 'Sky', hex: '#90caf9' },
+        ],
+    },
+];
+
+export interface InkArea {
+    color: InkColor;
+    pixels: number;
+    // Fraction of the inked area, excluding bare skin.
+    share: number;
+}
+
+export interface InkBreakdown {
+    areas: InkArea[];
+    // Fraction of the whole design that is inked at all.
+    coverage: number;
+}
+
+type Lab = [number, number, number];
+
+const hexToRgb = (hex: string): [number, number, number] => {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const rgbToHex = (r: number, g: number, b: number) =>
+    `#${[r, g, b].map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('')}`;
+
+const srgbToLinear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+
+const linearToSrgb = (v: number) => 255 * (v <= 0.0031308 ? 12.92 * v : 1.055 * v ** (1 / 2.4) - 0.055);
+
+// D65 reference white.
+const WHITE_X = 0.95047;
+const WHITE_Z = 1.08883;
+
+const rgbToLab = (r: number, g: number, b: number): Lab => {
+    const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+    const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+    const fx = f((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / WHITE_X);
+    const fy = f(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+    const fz = f((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / WHITE_Z);
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const labToHex = ([l, a, b]: Lab): string => {
+    const fy = (l + 16) / 116;
+    const fx = fy + a / 500;
+    const fz = fy - b / 200;
+    const inverse = (t: number) => t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27);
+    const x = inverse(fx) * WHITE_X, y = inverse(fy), z = inverse(fz) * WHITE_Z;
+    return rgbToHex(
+        linearToSrgb(3.2406 * x - 1.5372 * y - 0.4986 * z),
+        linearToSrgb(-0.9689 * x + 1.8758 * y + 0.0415 * z),
+        linearToSrgb(0.0557 * x - 0.2040 * y + 1.0570 * z),
+    );
+};
+
+const labDistance = (p: Lab, q: Lab) => (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2;
+
+// Pixels are bucketed to 5 bits per channel, which is far finer than any ink
+// palette needs and keeps the nearest-color search to one lookup per bucket.
+const bucketOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+const bucketCenter = (bucket: number): [number, number, number] =>
+    [((bucket >> 10) << 3) + 4, (((bucket >> 5) & 31) << 3) + 4, ((bucket & 31) << 3) + 4];
+
+// Transparent pixels count as bare skin, i.e. white.
+const flattenPixel = (data: Uint8ClampedArray, i: number): [number, number, number] => {
+    const alpha = data[i + 3] / 255;
+    return [
+        data[i] * alpha + 255 * (1 - alpha),
+        data[i + 1] * alpha + 255 * (1 - alpha),
+        data[i + 2] * alpha + 255 * (1 - alpha),
+    ];
+};
+
+const readPixels = async (src: string, maxSide?: number): Promise<ImageData> => {
+    const image = await loadImage(src);
+    const scale = maxSide ? Math.min(1, maxSide / Math.max(image.naturalWidth, image.naturalHeight)) : 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Every ink a design may use: bare skin, black linework, then the palette.
+const withBaseInks = (palette: InkColor[]): InkColor[] => {
+    const inks = [SKIN_WHITE, INK_BLACK];
+    palette.forEach(color => {
+        if (!inks.some(ink => ink.hex.toLowerCase() === color.hex.toLowerCase())) inks.push(color);
+    });
+    return inks;
+};
+
+// Assigns every pixel to its nearest ink. Returns the ink index per pixel.
+const assignInks = (pixels: ImageData, inks: InkColor[]): Uint8Array => {
+    const inkLabs = inks.map(ink => rgbToLab(...hexToRgb(ink.hex)));
+    const lookup = new Int16Array(1 << 15).fill(-1);
+    const assignment = new Uint8Array(pixels.width * pixels.height);
+    for (let p = 0; p < assignment.length; p++) {
+        const [r, g, b] = flattenPixel(pixels.data, p * 4);
+        const bucket = bucketOf(r, g, b);
+        if (lookup[bucket] < 0) {
+            const lab = rgbToLab(...bucketCenter(bucket));
+            let best = 0;
+            inkLabs.forEach((inkLab, i) => {
+                if (labDistance(lab, inkLab) < labDistance(lab, inkLabs[best])) best = i;
+            });
+            lookup[bucket] = best;
+        }
+        assignment[p] = lookup[bucket];
+    }
+    return assignment;
+};
+
+const summarize = (assignment: Uint8Array, inks: InkColor[]): InkBreakdown => {
+    const counts = new Array(inks.length).fill(0);
+    assignment.forEach(index => { counts[index] += 1; });
+    // Index 0 is bare skin.
+    const inked = assignment.length - counts[0];
+    const areas = inks.slice(1)
+        .map((color, i) => ({ color, pixels: counts[i + 1], share: inked > 0 ? counts[i + 1] / inked : 0 }))
+        .filter(area => area.pixels > 0)
+        .sort((a, b) => b.pixels - a.pixels);
+    return { areas, coverage: assignment.length > 0 ? inked / assignment.length : 0 };
+};
+
+// The palette a design should be snapped to, or null for black-and-grey work.
+export const getInkPalette = (options?: DesignOptions): InkColor[] | null =>
+    options?.colorMode === 'color' && options.palette && options.palette.length > 0 ? options.palette : null;
+
+export const quantizeToPalette = async (src: string, palette: InkColor[]): Promise<{ image: string; breakdown: InkBreakdown }> => {
+    const pixels = await readPixels(src);
+    const inks = withBaseInks(palette);
+    const assignment = assignInks(pixels, inks);
+    const inkRgbs = inks.map(ink => hexToRgb(ink.hex));
+    assignment.forEach((index, p) => {
+        const [r, g, b] = inkRgbs[index];
+        pixels.data[p * 4] = r;
+        pixels.data[p * 4 + 1] = g;
+        pixels.data[p * 4 + 2] = b;
+        pixels.data[p * 4 + 3] = 255;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    ctx.putImageData(pixels, 0, 0);
+    return { image: canvas.toDataURL('image/png'), breakdown: summarize(assignment, inks) };
+};
+
+export const measureInkAreas = async (src: string, palette: InkColor[]): Promise<InkBreakdown> => {
+    const inks = withBaseInks(palette);
+    return summarize(assignInks(await readPixels(src), inks), inks);
+};
+
+const EXTRACT_SIDE = 96;
+const KMEANS_ITERATIONS = 12;
+// Clusters smaller than this share of the colored pixels are noise, not inks.
+const MIN_CLUSTER_SHARE = 0.03;
+
+// Picks the dominant colors of an image with weighted k-means over color
+// buckets. Near-white (background) and near-black (linework) are left out,
+// since both are always part of the palette anyway. Deterministic: seeds are
+// chosen by population and distance rather than at random.
+export const extractPalette = async (src: string, count = 5): Promise<InkColor[]> => {
+    const pixels = await readPixels(src, EXTRACT_SIDE);
+    const weights = new Map<number, number>();
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        if (pixels.data[i + 3] < 128) continue;
+        const bucket = bucketOf(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]);
+        weights.set(bucket, (weights.get(bucket) ?? 0) + 1);
+    }
+    const points = [...weights].map(([bucket, weight]) => ({ lab: rgbToLab(...bucketCenter(bucket)), weight }))
+        .filter(point => point.lab[0] > 18 && point.lab[0] < 94);
+    const total = points.reduce((sum, point) => sum + point.weight, 0);
+    if (points.length === 0) return [];
+
+    const centers: Lab[] = [];
+    while (centers.length < Math.min(count, points.length)) {
+        let best = points[0];
+        let bestScore = -1;
+        for (const point of points) {
+            const distance = centers.length === 0 ? 1 : Math.min(...centers.map(center => labDistance(point.lab, center)));
+            const score = point.weight * distance;
+            if (score > bestScore) {
+                best = point;
+                bestScore = score;
+            }
+        }
+        if (bestScore <= 0) break;
+        centers.push([...best.lab] as Lab);
+    }
+
+    let clusterWeights: number[] = [];
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+        const sums = centers.map(() => [0, 0, 0]);
+        clusterWeights = centers.map(() => 0);
+        for (const point of points) {
+            let nearest = 0;
+            centers.forEach((center, i) => {
+                if (labDistance(point.lab, center) < labDistance(point.lab, centers[nearest])) nearest = i;
+            });
+            sums[nearest].forEach((_, c) => { sums[nearest][c] += point.lab[c] * point.weight; });
+            clusterWeights[nearest] += point.weight;
+        }
+        centers.forEach((center, i) => {
+            if (clusterWeights[i] > 0) centers[i] = sums[i].map(sum => sum / clusterWeights[i]) as Lab;
+        });
+    }
+
+    return centers
+        .map((center, i) => ({ hex: labToHex(center), weight: clusterWeights[i] }))
+        .filter(cluster => cluster.weight / total >= MIN_CLUSTER_SHARE)
+        .sort((a, b) => b.weight - a.weight)
+        .map(cluster => ({ name: cluster.hex.toUpperCase(), hex: cluster.hex }));
+};
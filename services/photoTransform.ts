@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from './imageUtils';
+
+export interface CropRect {
+    // Normalized to the rotated photo, 0..1 on both axes.
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PhotoAdjustments {
+    rotation: number; // degrees, clockwise
+    flipX: boolean;
+    flipY: boolean;
+    crop: CropRect;
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// Keeps photos sent to the blend model, and held in memory, at a sane size.
+export const MAX_PHOTO_SIDE = 2048;
+
+export const rotatedBounds = (width: number, height: number, rotation: number) => {
+    const radians = (rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    return {
+        width: Math.round(width * cos + height * sin),
+        height: Math.round(width * sin + height * cos),
+    };
+};
+
+// Draws the image rotated and flipped onto a canvas sized to the rotated bounds.
+export const renderRotatedImage = (image: CanvasImageSource & { width: number; height: number }, rotation: number, flipX: boolean, flipY: boolean): HTMLCanvasElement => {
+    const bounds = rotatedBounds(image.width, image.height, rotation);
+    const canvas = document.createElement('canvas');
+    canvas.width = bounds.width;
+    canvas.height = bounds.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+
+    ctx.translate(bounds.width / 2, bounds.height / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+    ctx.drawImage(image, -image.width / 2, -image.height / 2);
+    return canvas;
+};
+
+// Fits a width/height pair inside the given box without changing its aspect ratio.
+export const fitWithin = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+    const scale = Math.min(1, maxWidth / width, maxHeight / height);
+    return { width: Math.round(width * scale), height: Math.round(height * scale), scale };
+};
+
+export const applyPhotoAdjustments = async (src: string, adjustments: PhotoAdjustments): Promise<string> => {
+    const image = await loadImage(src);
+    const rotated = renderRotatedImage(image, adjustments.rotation, adjustments.flipX, adjustments.flipY);
+    const { crop } = adjustments;
+
+    const sourceX = Math.round(crop.x * rotated.width);
+    const sourceY = Math.round(crop.y * rotated.height);
+    const sourceWidth = Math.max(1, Math.round(crop.width * rotated.width));
+    const sourceHeight = Math.max(1, Math.round(crop.height * rotated.height));
+    const output = fitWithin(sourceWidth, sourceHeight, MAX_PHOTO_SIDE, MAX_PHOTO_SIDE);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = output.width;
+    canvas.height = output.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    ctx.drawImage(rotated, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, output.width, output.height);
+
+    return canvas.toDataURL('image/jpeg', 0.92);
+};
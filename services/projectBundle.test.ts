@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import type { Project } from '../types';
+import { createContract } from './contractService';
+import { exportProjectsBundle, readProjectsBundle, resolveImportConflicts } from './projectBundle';
+
+// 1x1 transparent PNG.
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const project = (id: string): Project => ({
+    id,
+    designImage: PIXEL,
+    artist: { name: 'Ink Haus', description: 'Fine-line work.', address: '1 Main St' },
+    savedAt: '2024-01-01T00:00:00.000Z',
+    conversation: [],
+    contract: createContract(),
+});
+
+const bundle = (manifest: unknown) => {
+    const zip = new JSZip();
+    zip.file('manifest.json', JSON.stringify(manifest));
+    return zip.generateAsync({ type: 'blob' });
+};
+
+const manifest = (projects: unknown[]) => ({ format: 'inkgenius-project-bundle', version: 1, exportedAt: '2024-01-01T00:00:00.000Z', projects });
+
+describe('readProjectsBundle', () => {
+    it('reads back an exported bundle with its images', async () => {
+        const exported = { ...project('a'), stencilImage: PIXEL };
+        expect(await readProjectsBundle(await exportProjectsBundle([exported]))).toEqual([exported]);
+    });
+
+    it('stores images as separate files rather than in the manifest', async () => {
+        const zip = await JSZip.loadAsync(await exportProjectsBundle([project('a')]));
+        const manifestText = await zip.file('manifest.json')!.async('string');
+        expect(manifestText).not.toContain('data:image');
+        expect(zip.file(/^assets\/a\//)).toHaveLength(1);
+    });
+
+    it.each([
+        ['an undated project', { ...project('a'), savedAt: undefined }],
+        ['a non-string savedAt', { ...project('a'), savedAt: 1704067200000 }],
+        ['a project without an artist', { ...project('a'), artist: undefined }],
+        ['an artist without a name', { ...project('a'), artist: { description: '', address: '' } }],
+        ['a project without a design', { ...project('a'), designImage: undefined }],
+    ])('rejects a manifest with %s', async (_, malformed) => {
+        await expect(readProjectsBundle(await bundle(manifest([malformed]))))
+            .rejects.toThrow('The project bundle contains an incomplete project.');
+    });
+
+    it('rejects files that are not project bundles', async () => {
+        await expect(readProjectsBundle(await bundle({ projects: [] }))).rejects.toThrow('not a valid InkGenius project bundle');
+        await expect(readProjectsBundle(new Blob(['not a zip']))).rejects.toThrow();
+    });
+
+    it('rejects a bundle missing an image', async () => {
+        const missing = { ...project('a'), designImage: 'asset:assets/a/designImage.png' };
+        await expect(readProjectsBundle(await bundle(manifest([missing])))).rejects.toThrow('missing the asset');
+    });
+});
+
+describe('resolveImportConflicts', () => {
+    it('replaces, duplicates or skips projects whose ids are taken', () => {
+        const imported = [project('a'), project('b')];
+        const existing = new Set(['a']);
+        expect(resolveImportConflicts(imported, existing, 'replace').map(p => p.id)).toEqual(['a', 'b']);
+        expect(resolveImportConflicts(imported, existing, 'skip').map(p => p.id)).toEqual(['b']);
+
+        const duplicated = resolveImportConflicts(imported, existing, 'duplicate');
+        expect(duplicated).toHaveLength(2);
+        expect(duplicated[0].id).not.toBe('a');
+        expect(duplicated[1].id).toBe('b');
+    });
+});
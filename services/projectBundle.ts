@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import JSZip from 'jszip';
+import type { Project } from '../types';
+import { isDataURL, mapDeep } from './imageUtils';
+import { normalizeProject } from './projectRepository';
+
+// A bundle is a zip holding `manifest.json` plus every image as a file under
+// `assets/<project id>/`. In the manifest, images are replaced by
+// `asset:<path>` references so the JSON stays small and human-readable.
+
+const BUNDLE_FORMAT = 'inkgenius-project-bundle';
+const BUNDLE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const ASSET_REF_PREFIX = 'asset:';
+
+interface BundleManifest {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    projects: unknown[];
+}
+
+export type ImportConflictStrategy = 'replace' | 'duplicate' | 'skip';
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = Object.fromEntries(
+    Object.entries(EXTENSION_BY_MIME).map(([mime, ext]) => [ext, mime])
+);
+
+const sanitizePathSegment = (segment: string) => segment.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+export const exportProjectsBundle = async (projects: Project[]): Promise<Blob> => {
+    const zip = new JSZip();
+
+    const manifestProjects = await Promise.all(projects.map(project =>
+        mapDeep(project, (value, path) => {
+            if (!isDataURL(value)) return undefined;
+            const [header, data] = value.split(',');
+            const mimeType = header.slice('data:'.length, header.indexOf(';'));
+            const assetPath = `assets/${sanitizePathSegment(project.id)}/${path.map(sanitizePathSegment).join('-')}.${EXTENSION_BY_MIME[mimeType] ?? 'bin'}`;
+            zip.file(assetPath, data, { base64: true });
+            return Promise.resolve(`${ASSET_REF_PREFIX}${assetPath}`);
+        })
+    ));
+
+    const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        projects: manifestProjects,
+    };
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+export const readProjectsBundle = async (file: Blob): Promise<Project[]> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch (error) {
+        console.error('Failed to read bundle archive', error);
+        throw new Error('This file is not a valid InkGenius project bundle.');
+    }
+
+    const manifestFile = zip.file(MANIFEST_FILE);
+    if (!manifestFile) {
+        throw new Error('This file is not a valid InkGenius project bundle.');
+    }
+
+    let manifest: BundleManifest;
+    try {
+        manifest = JSON.parse(await manifestFile.async('string'));
+    } catch (error) {
+        console.error('Failed to parse bundle manifest', error);
+        throw new Error('The project bundle manifest could not be read.');
+    }
+    if (manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.projects)) {
+        throw new Error('This file is not a valid InkGenius project bundle.');
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+        throw new Error('This project bundle was created by a newer version of InkGenius.');
+    }
+
+    const projects = await Promise.all(manifest.projects.map((project: unknown) =>
+        mapDeep(project, (value) => {
+            if (typeof value !== 'string' || !value.startsWith(ASSET_REF_PREFIX)) return undefined;
+            const assetPath = value.slice(ASSET_REF_PREFIX.length);
+            const asset = zip.file(assetPath);
+            if (!asset) {
+                throw new Error(`The project bundle is missing the asset "${assetPath}".`);
+            }
+            const mimeType = MIME_BY_EXTENSION[assetPath.split('.').pop() ?? ''] ?? 'application/octet-stream';
+            return asset.async('base64').then(data => `data:${mimeType};base64,${data}`);
+        })
+    ));
+
+    return projects.map(raw => {
+        const project = normalizeProject(raw);
+        if (!project) {
+            throw new Error('The project bundle contains an incomplete project.');
+        }
+        return project;
+    });
+};
+
+// Decides what to do with imported projects whose ids already exist in the gallery.
+export const resolveImportConflicts = (
+    imported: Project[],
+    existingIds: Set<string>,
+    strategy: ImportConflictStrategy
+): Project[] => {
+    const takenIds = new Set(existingIds);
+    return imported.flatMap((project, index) => {
+        if (!takenIds.has(project.id) || strategy === 'replace') {
+            takenIds.add(project.id);
+            return [project];
+        }
+        if (strategy === 'skip') {
+            return [];
+        }
+        let id = `proj_${Date.now()}_${index}`;
+        while (takenIds.has(id)) id = `${id}_copy`;
+        takenIds.add(id);
+        return [{ ...project, id }];
+    });
+};
+
+export const bundleFileName = (projects: Project[]): string => {
+    const date = new Date().toISOString().slice(0, 10);
+    return projects.length === 1
+        ? `inkgenius-${sanitizePathSegment(projects[0].artist.name)}-${date}.zip`
+        : `inkgenius-projects-${date}.zip`;
+};
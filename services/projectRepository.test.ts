@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DesignVersion, Message, Project } from '../types';
+import { createContract } from './contractService';
+import { openDatabase, PROJECT_STORE, transactionDone } from './database';
+import { deleteProject, listProjects, saveProject } from './projectRepository';
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const project = (id: string, savedAt: string): Project => ({
+    id,
+    designImage: PIXEL,
+    artist: { name: 'Ink Haus', description: 'Fine-line work.', address: '1 Main St' },
+    savedAt,
+    conversation: [],
+    contract: createContract(),
+});
+
+const VERSION: DesignVersion = {
+    id: 'v1',
+    parentId: null,
+    image: PIXEL,
+    refinement: 'generated',
+    model: 'mock-image',
+    createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+const MESSAGE: Message = { sender: 'user', text: 'Hi!', timestamp: '2024-01-02T00:00:00.000Z' };
+
+beforeEach(async () => {
+    await Promise.all((await listProjects()).map(p => deleteProject(p.id)));
+});
+
+describe('projectRepository', () => {
+    it('saves and lists projects oldest first', async () => {
+        await saveProject(project('b', '2024-02-01T00:00:00.000Z'));
+        await saveProject(project('a', '2024-01-01T00:00:00.000Z'));
+        expect((await listProjects()).map(p => p.id)).toEqual(['a', 'b']);
+    });
+
+    it('stores images as blobs and reads them back as data URLs', async () => {
+        await saveProject({ ...project('a', '2024-01-01T00:00:00.000Z'), versions: [VERSION] });
+        const [saved] = await listProjects();
+        expect(saved.designImage).toBe(PIXEL);
+        expect(saved.versions?.[0].image).toBe(PIXEL);
+    });
+
+    it('updates a project saved under the same id', async () => {
+        await saveProject(project('a', '2024-01-01T00:00:00.000Z'));
+        await saveProject({ ...project('a', '2024-01-01T00:00:00.000Z'), conversation: [MESSAGE] });
+        const projects = await listProjects();
+        expect(projects).toHaveLength(1);
+        expect(projects[0].conversation).toEqual([MESSAGE]);
+    });
+
+    it('lists the projects it can read when a stored one is incomplete', async () => {
+        await saveProject(project('a', '2024-01-01T00:00:00.000Z'));
+        const { savedAt: _savedAt, ...undated } = project('undated', '2024-01-01T00:00:00.000Z');
+        const db = await openDatabase();
+        const transaction = db.transaction(PROJECT_STORE, 'readwrite');
+        transaction.objectStore(PROJECT_STORE).put(undated);
+        await transactionDone(transaction);
+        expect((await listProjects()).map(p => p.id)).toEqual(['a']);
+        await deleteProject('undated');
+    });
+
+    it('deletes projects', async () => {
+        await saveProject(project('a', '2024-01-01T00:00:00.000Z'));
+        await saveProject(project('b', '2024-02-01T00:00:00.000Z'));
+        await deleteProject('a');
+        expect((await listProjects()).map(p => p.id)).toEqual(['b']);
+    });
+
+    it('migrates projects left in localStorage', async () => {
+        localStorage.setItem('inkgenius_projects', JSON.stringify([project('legacy', '2023-01-01T00:00:00.000Z')]));
+        // The migration runs once per page load, so a fresh module is needed to trigger it again.
+        vi.resetModules();
+        const repository = await import('./projectRepository');
+        expect((await repository.listProjects()).map(p => p.id)).toEqual(['legacy']);
+        expect(localStorage.getItem('inkgenius_projects')).toBeNull();
+    });
+
+    it.each([
+        ['an object', JSON.stringify(project('legacy', '2023-01-01T00:00:00.000Z'))],
+        ['a string', '"projects"'],
+        ['null', 'null'],
+        ['invalid JSON', '[{"id": '],
+    ])('discards a legacy value that is %s', async (_, saved) => {
+        localStorage.setItem('inkgenius_projects', saved);
+        vi.resetModules();
+        const repository = await import('./projectRepository');
+        expect(await repository.listProjects()).toEqual([]);
+        expect(localStorage.getItem('inkgenius_projects')).toBeNull();
+    });
+
+    it('skips legacy entries the gallery could not show', async () => {
+        const legacy = project('legacy', '2023-01-01T00:00:00.000Z');
+        const { savedAt: _savedAt, ...undated } = project('undated', '2023-01-01T00:00:00.000Z');
+        localStorage.setItem('inkgenius_projects', JSON.stringify([
+            null,
+            'project',
+            { designImage: PIXEL },
+            undated,
+            { ...project('no-design', '2023-01-01T00:00:00.000Z'), designImage: null },
+            { ...project('no-artist', '2023-01-01T00:00:00.000Z'), artist: null },
+            { ...project('unnamed', '2023-01-01T00:00:00.000Z'), artist: { address: '1 Main St' } },
+            legacy,
+        ]));
+        vi.resetModules();
+        const repository = await import('./projectRepository');
+        expect((await repository.listProjects()).map(p => p.id)).toEqual(['legacy']);
+    });
+
+    it('fills in optional fields of legacy entries', async () => {
+        const { conversation: _conversation, ...legacy } = project('legacy', '2023-01-01T00:00:00.000Z');
+        localStorage.setItem('inkgenius_projects', JSON.stringify([{ ...legacy, artist: { name: 'Ink Haus' } }]));
+        vi.resetModules();
+        const repository = await import('./projectRepository');
+        const [migrated] = await repository.listProjects();
+        expect(migrated.conversation).toEqual([]);
+        expect(migrated.artist).toEqual({ name: 'Ink Haus', description: '', address: '' });
+    });
+});
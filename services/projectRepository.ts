@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Project } from '../types';
+import { normalizeContract } from './contractService';
+import { blobToDataURL, dataURLtoBlob, isDataURL, mapDeep } from './imageUtils';
+import { openDatabase, PROJECT_STORE, requestToPromise, transactionDone, withQuotaHandling } from './database';
+
+// Single owner of saved projects. Projects live in IndexedDB with every image
+// stored as a Blob, so the gallery is bounded by the browser's disk quota
+// rather than the ~5MB localStorage limit.
+
+const LEGACY_STORAGE_KEY = 'inkgenius_projects';
+
+export { StorageQuotaError } from './database';
+
+// A project as stored: the same fields, with every data URL swapped for a Blob.
+type Stored<T> = T extends string ? string | Blob : T extends object ? { [K in keyof T]: Stored<T[K]> } : T;
+type ProjectRecord = Stored<Project>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The project `raw` describes, or null when it lacks the fields the gallery
+// reads. Projects from localStorage, IndexedDB and bundles all pass through here.
+export const normalizeProject = (raw: unknown): Project | null => {
+    if (!isRecord(raw)) return null;
+    const { id, savedAt, designImage, artist } = raw;
+    if (typeof id !== 'string' || typeof savedAt !== 'string' || typeof designImage !== 'string') return null;
+    if (!isRecord(artist) || typeof artist.name !== 'string') return null;
+    return {
+        ...raw,
+        id,
+        savedAt,
+        designImage,
+        artist: { description: '', address: '', ...artist, name: artist.name },
+        conversation: Array.isArray(raw.conversation) ? raw.conversation : [],
+        contract: normalizeContract(raw.contract),
+    };
+};
+
+const toRecord = async (project: Project): Promise<ProjectRecord> =>
+    await mapDeep(project, value => isDataURL(value) ? Promise.resolve(dataURLtoBlob(value)) : undefined) as ProjectRecord;
+
+const fromRecord = async (record: ProjectRecord): Promise<Project | null> =>
+    normalizeProject(await mapDeep(record, value => value instanceof Blob ? blobToDataURL(value) : undefined));
+
+const putRecords = async (db: IDBDatabase, projects: Project[]) => {
+    const records = await Promise.all(projects.map(toRecord));
+    const transaction = db.transaction(PROJECT_STORE, 'readwrite');
+    const store = transaction.objectStore(PROJECT_STORE);
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+};
+
+// Moves projects saved by earlier versions of the app out of localStorage.
+const migrateLegacyProjects = async (db: IDBDatabase) => {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(saved);
+    } catch (error) {
+        console.error("Discarding unreadable projects from localStorage", error);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return;
+    }
+    if (!Array.isArray(parsed)) {
+        console.error("Discarding projects from localStorage that are not a list", parsed);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return;
+    }
+
+    // Entries the gallery could not show are left behind.
+    const legacyProjects = parsed.map(normalizeProject).filter((p): p is Project => p !== null);
+    if (legacyProjects.length < parsed.length) {
+        console.error(`Discarding ${parsed.length - legacyProjects.length} incomplete project(s) from localStorage`);
+    }
+    await putRecords(db, legacyProjects);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log(`Migrated ${legacyProjects.length} project(s) from localStorage to IndexedDB`);
+};
+
+let legacyMigration: Promise<void> | null = null;
+
+// The database, once any legacy projects have been moved into it.
+const openProjectDatabase = async (): Promise<IDBDatabase> => {
+    const db = await openDatabase();
+    if (!legacyMigration) {
+        legacyMigration = migrateLegacyProjects(db);
+        legacyMigration.catch(() => { legacyMigration = null; });
+    }
+    await legacyMigration;
+    return db;
+};
+
+export const listProjects = async (): Promise<Project[]> => {
+    const db = await withQuotaHandling(openProjectDatabase);
+    const records: ProjectRecord[] = await requestToPromise(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).getAll());
+    const projects = (await Promise.all(records.map(fromRecord))).filter((p): p is Project => p !== null);
+    if (projects.length < records.length) {
+        console.error(`Skipping ${records.length - projects.length} incomplete project(s)`);
+    }
+    return projects.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+};
+
+export const saveProject = (project: Project): Promise<void> =>
+    withQuotaHandling(async () => putRecords(await openProjectDatabase(), [project]));
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+    const db = await openProjectDatabase();
+    const transaction = db.transaction(PROJECT_STORE, 'readwrite');
+    transaction.objectStore(PROJECT_STORE).delete(projectId);
+    await transactionDone(transaction);
+};
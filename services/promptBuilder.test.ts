@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { DesignOptions } from '../types';
+import { applyStylePreset, buildDesignPrompt, DEFAULT_DESIGN_OPTIONS, describeDesignOptions } from './promptBuilder';
+
+const options = (fields: Partial<DesignOptions>): DesignOptions => ({ ...DEFAULT_DESIGN_OPTIONS, ...fields });
+
+describe('applyStylePreset', () => {
+    it('applies the options that suit the style', () => {
+        expect(applyStylePreset(DEFAULT_DESIGN_OPTIONS, 'american-traditional')).toEqual(
+            options({ style: 'american-traditional', colorMode: 'color', lineWeight: 'bold' })
+        );
+    });
+
+    it('keeps the other options when the style is cleared', () => {
+        const chosen = options({ style: 'fine-line', lineWeight: 'fine', placement: 'wrist' });
+        expect(applyStylePreset(chosen, null)).toEqual({ ...chosen, style: null });
+    });
+});
+
+describe('describeDesignOptions', () => {
+    it('leaves out the defaults', () => {
+        expect(describeDesignOptions(DEFAULT_DESIGN_OPTIONS)).toBe('Black & Grey · Medium lines');
+    });
+
+    it('lists the style, palette, composition and placement', () => {
+        const described = describeDesignOptions(options({
+            style: 'blackwork',
+            colorMode: 'color',
+            palette: [{ name: 'Red', hex: '#cc2222' }, { name: 'Teal', hex: '#118888' }],
+            lineWeight: 'bold',
+            composition: 'round',
+            placement: 'forearm',
+        }));
+        expect(described).toBe('Blackwork · Color · 2-ink palette · Bold lines · Round · Forearm');
+    });
+});
+
+describe('buildDesignPrompt', () => {
+    it('asks for a black and grey design in a versatile style by default', () => {
+        const prompt = buildDesignPrompt({ subject: 'A koi fish' });
+        expect(prompt).toContain('concept: "A koi fish"');
+        expect(prompt).toContain('black ink with grey shading only');
+        expect(prompt).toContain('Use a versatile, modern illustration style.');
+        expect(prompt).not.toContain('tattooed on the');
+    });
+
+    it('includes the style, its things to avoid and a free-text style', () => {
+        const prompt = buildDesignPrompt({ subject: 'A koi fish', stylePrompt: 'Heavy stippling', options: options({ style: 'dotwork' }) });
+        expect(prompt).toContain('Work in the style of a dotwork tattoo');
+        expect(prompt).toContain('- Do NOT use smooth grey wash shading.');
+        expect(prompt).toContain('Incorporate the following artistic style: "Heavy stippling".');
+        expect(prompt).not.toContain('versatile, modern illustration style');
+    });
+
+    it('limits a color design to its palette', () => {
+        const prompt = buildDesignPrompt({
+            subject: 'A koi fish',
+            options: options({ colorMode: 'color', palette: [{ name: 'Red', hex: '#cc2222' }] }),
+        });
+        expect(prompt).toContain('only these tattoo inks, as flat, solid areas of color: Red (#cc2222)');
+        expect(prompt).toContain('Do NOT use any other colors');
+    });
+
+    it('ignores a palette on a black and grey design', () => {
+        const prompt = buildDesignPrompt({ subject: 'A koi fish', options: options({ palette: [{ name: 'Red', hex: '#cc2222' }] }) });
+        expect(prompt).not.toContain('Red (#cc2222)');
+    });
+
+    it('shapes the design for its composition and placement', () => {
+        const prompt = buildDesignPrompt({ subject: 'A koi fish', options: options({ composition: 'band', placement: 'upper-arm' }) });
+        expect(prompt).toContain('horizontal band that could wrap around a limb');
+        expect(prompt).toContain('It will be tattooed on the upper arm');
+    });
+});
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getInkPalette } from './palette';
+import type { BodyPlacement, DesignComposition, DesignOptions, InkColorMode, LineWeight, TattooStyleId } from '../types';
+
+// Turns a subject plus structured design options into the image generation
+// prompt. Everything here is pure so the exact prompt text can be checked
+// without calling a model.
+
+export interface TattooStyle {
+    label: string;
+    // Short description for the style picker.
+    summary: string;
+    // What the model is asked to do for this style.
+    prompt: string;
+    // Style-specific things the model should avoid.
+    avoid: string[];
+    // Options that suit the style, applied when the style is picked.
+    defaults: Partial<Omit<DesignOptions, 'style'>>;
+}
+
+export const TATTOO_STYLES: Record<TattooStyleId, TattooStyle> = {
+    'american-traditional': {
+        label: 'American Traditional',
+        summary: 'Bold outlines, limited palette, classic flash',
+        prompt: 'American traditional (old school) tattoo flash: heavy black outlines, simple solid shading, a limited palette of red, yellow, green and black, and iconic, readable shapes.',
+        avoid: ['fine gradients or photorealistic shading', 'thin or sketchy lines'],
+        defaults: { colorMode: 'color', lineWeight: 'bold' },
+    },
+    'neo-traditional': {
+        label: 'Neo-Traditional',
+        summary: 'Traditional structure with richer detail',
+        prompt: 'neo-traditional tattoo: bold outlines with varied line weight, ornamental detail, dimensional shading and a rich, jewel-toned palette.',
+        avoid: ['flat, overly simplified shapes'],
+        defaults: { colorMode: 'color', lineWeight: 'medium' },
+    },
+    'japanese-irezumi': {
+        label: 'Japanese Irezumi',
+        summary: 'Flowing waves, wind bars and mythic motifs',
+        prompt: 'Japanese irezumi tattoo: flowing composition, bold outlines, traditional motifs such as waves, wind bars, clouds and blossoms, and smooth black background shading.',
+        avoid: ['Western cartoon styling', 'text or kanji lettering'],
+        defaults: { colorMode: 'color', lineWeight: 'bold' },
+    },
+    'fine-line': {
+        label: 'Fine Line',
+        summary: 'Delicate single-needle linework',
+        prompt: 'fine-line tattoo: delicate single-needle linework, minimal or no shading, subtle detail and plenty of negative space.',
+        avoid: ['heavy outlines', 'large solid black fills'],
+        defaults: { colorMode: 'black-and-grey', lineWeight: 'fine' },
+    },
+    blackwork: {
+        label: 'Blackwork',
+        summary: 'Solid black fills and strong contrast',
+        prompt: 'blackwork tattoo: large areas of solid black, strong contrast against bare skin and graphic negative-space shapes.',
+        avoid: ['grey wash gradients', 'colored ink'],
+        defaults: { colorMode: 'black-and-grey', lineWeight: 'bold' },
+    },
+    dotwork: {
+        label: 'Dotwork',
+        summary: 'Stippled shading built from dots',
+        prompt: 'dotwork tattoo: all shading built from stippled dots of varying density, with precise outlines and often sacred-geometry or mandala elements.',
+        avoid: ['smooth grey wash shading', 'solid gradients'],
+        defaults: { colorMode: 'black-and-grey', lineWeight: 'fine' },
+    },
+    realism: {
+        label: 'Realism',
+        summary: 'Lifelike shading and depth',
+        prompt: 'realism tattoo: lifelike proportions, smooth tonal shading, realistic lighting and depth, with little or no outline.',
+        avoid: ['cartoon outlines', 'flat fills'],
+        defaults: { colorMode: 'black-and-grey', lineWeight: 'fine' },
+    },
+    geometric: {
+        label: 'Geometric',
+        summary: 'Precise shapes, symmetry and patterns',
+        prompt: 'geometric tattoo: precise straight lines and circles, symmetry, repeating patterns and clean construction.',
+        avoid: ['wobbly or hand-drawn looking lines'],
+        defaults: { colorMode: 'black-and-grey', lineWeight: 'medium' },
+    },
+    watercolor: {
+        label: 'Watercolor',
+        summary: 'Soft washes of color with loose edges',
+        prompt: 'watercolor tattoo: soft, translucent washes and splashes of color with loose, painterly edges, anchored by a few sharp black lines.',
+        avoid: ['a painted paper texture or background wash that fills the frame'],
+        defaults: { colorMode: 'color', lineWeight: 'fine' },
+    },
+    tribal: {
+        label: 'Tribal',
+        summary: 'Flowing solid black forms',
+        prompt: 'tribal tattoo: flowing, interlocking solid black shapes with sharp tapered points that follow the body\'s contours.',
+        avoid: ['shading or gradients', 'colored ink'],
+        defaults: { colorMode: 'black-and-grey', lineWeight: 'bold' },
+    },
+};
+
+export const COLOR_MODE_LABELS: Record<InkColorMode, string> = {
+    'black-and-grey': 'Black & Grey',
+    color: 'Color',
+};
+
+export const LINE_WEIGHT_LABELS: Record<LineWeight, string> = {
+    fine: 'Fine',
+    medium: 'Medium',
+    bold: 'Bold',
+};
+
+export const COMPOSITION_LABELS: Record<DesignComposition, string> = {
+    freeform: 'Freeform',
+    round: 'Round',
+    vertical: 'Vertical',
+    band: 'Band',
+};
+
+export const PLACEMENT_LABELS: Record<BodyPlacement, string> = {
+    any: 'Anywhere',
+    forearm: 'Forearm',
+    'upper-arm': 'Upper Arm',
+    wrist: 'Wrist',
+    hand: 'Hand',
+    chest: 'Chest',
+    back: 'Back',
+    ribs: 'Ribs',
+    thigh: 'Thigh',
+    calf: 'Calf',
+    ankle: 'Ankle',
+    neck: 'Neck',
+};
+
+export const DEFAULT_DESIGN_OPTIONS: DesignOptions = {
+    style: null,
+    colorMode: 'black-and-grey',
+    lineWeight: 'medium',
+    composition: 'freeform',
+    placement: 'any',
+};
+
+const LINE_WEIGHT_GUIDANCE: Record<LineWeight, string> = {
+    fine: 'Use thin, delicate linework with a consistently fine line weight.',
+    medium: 'Use confident, medium-weight linework.',
+    bold: 'Use heavy, bold outlines that will hold up as the tattoo ages.',
+};
+
+const COMPOSITION_GUIDANCE: Record<DesignComposition, string | null> = {
+    freeform: null,
+    round: 'Fit the whole design within a circular composition, balanced around its centre.',
+    vertical: 'Compose it as a tall, vertical design that is clearly taller than it is wide.',
+    band: 'Compose it as a horizontal band that could wrap around a limb, with left and right ends that can join seamlessly.',
+};
+
+// Picking a style also picks the options that suit it; the user can still change them afterwards.
+export const applyStylePreset = (options: DesignOptions, style: TattooStyleId | null): DesignOptions => ({
+    ...options,
+    ...(style ? TATTOO_STYLES[style].defaults : {}),
+    style,
+});
+
+// One-line description of the options, e.g. "Blackwork · Black & Grey · Bold lines · Forearm".
+export const describeDesignOptions = (options: DesignOptions): string => [
+    options.style ? TATTOO_STYLES[options.style].label : null,
+    COLOR_MODE_LABELS[options.colorMode],
+    options.colorMode === 'color' && options.palette?.length ? `${options.palette.length}-ink palette` : null,
+    `${LINE_WEIGHT_LABELS[options.lineWeight]} lines`,
+    options.composition !== 'freeform' ? COMPOSITION_LABELS[options.composition] : null,
+    options.placement !== 'any' ? PLACEMENT_LABELS[options.placement] : null,
+].filter(Boolean).join(' · ');
+
+export interface DesignPromptRequest {
+    subject: string;
+    // Free-text style, e.g. the description of a reference image.
+    stylePrompt?: string;
+    options?: DesignOptions;
+}
+
+export const buildDesignPrompt = ({ subject, stylePrompt, options = DEFAULT_DESIGN_OPTIONS }: DesignPromptRequest): string => {
+    const style = options.style ? TATTOO_STYLES[options.style] : null;
+    const isColor = options.colorMode === 'color';
+    const palette = getInkPalette(options);
+
+    const guidance = [
+        'The output must be a clean piece of artwork, suitable for a tattoo flash sheet.',
+        palette
+            ? `Render the design using only these tattoo inks, as flat, solid areas of color: ${palette.map(ink => `${ink.name} (${ink.hex})`).join(', ')}, plus black linework, on a solid, pure white background (#FFFFFF).`
+            : isColor
+            ? 'Render the design in saturated tattoo ink colors with black linework on a solid, pure white background (#FFFFFF).'
+            : 'Render the design in black ink with grey shading only, on a solid, pure white background (#FFFFFF).',
+        'Emphasize clear, sharp linework and well-defined shapes. Avoid overly sketchy or blurry styles.',
+        style ? `Work in the style of a ${style.prompt}` : null,
+        stylePrompt ? `Incorporate the following artistic style: "${stylePrompt}".` : null,
+        !style && !stylePrompt ? 'Use a versatile, modern illustration style.' : null,
+        LINE_WEIGHT_GUIDANCE[options.lineWeight],
+        COMPOSITION_GUIDANCE[options.composition],
+        options.placement !== 'any'
+            ? `It will be tattooed on the ${PLACEMENT_LABELS[options.placement].toLowerCase()}, so shape it to suit that area and its proportions.`
+            : null,
+    ];
+
+    const constraints = [
+        'Do NOT show the tattoo on any skin or body part.',
+        isColor
+            ? 'Do NOT include any background elements or textures. The background must be pure white.'
+            : 'Do NOT include any background elements, textures, or colors. The background must be pure white.',
+        'Do NOT depict hands, tattoo machines, or any other real-world objects. The image should only contain the artwork itself.',
+        'Do NOT generate a photograph of an existing tattoo. This is a design concept.',
+        palette ? 'Do NOT use any other colors, and do NOT blend or grade between the inks.' : null,
+        ...(style?.avoid.map(item => `Do NOT use ${item}.`) ?? []),
+    ];
+
+    const bullets = (lines: (string | null)[]) => lines.filter((line): line is string => line !== null).map(line => `- ${line}`).join('\n');
+
+    return [
+        `Generate a high-quality, professional tattoo design based on the following concept: "${subject}".`,
+        '',
+        '**Style Guidance:**',
+        bullets(guidance),
+        '',
+        '**Negative Constraints (What to AVOID):**',
+        bullets(constraints),
+        '',
+        'The final image should be centered and ready for an artist to use as a stencil.',
+    ].join('\n');
+};
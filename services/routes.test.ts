@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { artistSearchPath, matchProjectPath, projectPath, readArtistSearchQuery, STEP_PATHS, stepFromPath } from './routes';
+
+describe('stepFromPath', () => {
+    it('maps each step path back to its step', () => {
+        Object.entries(STEP_PATHS).forEach(([step, path]) => expect(stepFromPath(path)).toBe(step));
+    });
+
+    it('ignores a trailing slash', () => {
+        expect(stepFromPath('/try-on/')).toBe('TRY_ON');
+    });
+
+    it('treats a project path as the gallery', () => {
+        expect(stepFromPath('/gallery/proj_1')).toBe('GALLERY');
+    });
+
+    it('returns null for unknown paths', () => {
+        expect(stepFromPath('/nowhere')).toBeNull();
+        expect(stepFromPath('/design/extra')).toBeNull();
+    });
+});
+
+describe('project paths', () => {
+    it('round-trips ids that need escaping', () => {
+        const path = projectPath('proj 1/a');
+        expect(path).toBe('/gallery/proj%201%2Fa');
+        expect(matchProjectPath(path)).toBe('proj 1/a');
+    });
+
+    it('matches only a single segment under the gallery', () => {
+        expect(matchProjectPath('/gallery/proj_1/')).toBe('proj_1');
+        expect(matchProjectPath('/gallery')).toBeNull();
+        expect(matchProjectPath('/gallery/proj_1/edit')).toBeNull();
+    });
+});
+
+describe('artist search paths', () => {
+    it('leaves the defaults out', () => {
+        expect(artistSearchPath({ location: null, specialties: [], availability: 'all', sort: 'default' })).toBe('/artists');
+    });
+
+    it('round-trips a search through the query string', () => {
+        const query = { location: 'Austin, TX', specialties: ['Fine Line', 'Blackwork'], availability: 'accepting' as const, sort: 'styleMatch' as const };
+        const path = artistSearchPath(query);
+        expect(readArtistSearchQuery(new URLSearchParams(path.split('?')[1]))).toEqual(query);
+    });
+
+    it('falls back to the defaults for missing or unknown values', () => {
+        expect(readArtistSearchQuery(new URLSearchParams('location=%20%20&availability=soon&sort=rating'))).toEqual({
+            location: null,
+            specialties: [],
+            availability: 'all',
+            sort: 'default',
+        });
+    });
+});
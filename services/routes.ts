@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AppStep } from '../types';
+
+// Each app step has its own path, so the back button, refresh and shared
+// links all land where the user expects. Artist searches live in the query
+// string and a saved project can be linked to directly.
+
+export const STEP_PATHS: Record<AppStep, string> = {
+    START: '/',
+    DESIGN: '/design',
+    TRY_ON: '/try-on',
+    DONE: '/done',
+    FIND_ARTIST: '/artists',
+    GALLERY: '/gallery',
+};
+
+const PROJECT_PATH = /^\/gallery\/([^/]+)\/?$/;
+
+export const projectPath = (projectId: string) => `${STEP_PATHS.GALLERY}/${encodeURIComponent(projectId)}`;
+
+// The project a `/gallery/:projectId` path points at, if any.
+export const matchProjectPath = (pathname: string): string | null => {
+    const match = pathname.match(PROJECT_PATH);
+    return match ? decodeURIComponent(match[1]) : null;
+};
+
+// Null for paths that belong to no step.
+export const stepFromPath = (pathname: string): AppStep | null => {
+    if (matchProjectPath(pathname)) return 'GALLERY';
+    const normalized = pathname.length > 1 ? pathname.replace(/\/$/, '') : pathname;
+    const entry = Object.entries(STEP_PATHS).find(([, path]) => path === normalized);
+    return entry ? entry[0] as AppStep : null;
+};
+
+export type ArtistAvailabilityFilter = 'all' | 'accepting';
+export type ArtistSort = 'default' | 'styleMatch';
+
+export interface ArtistSearchQuery {
+    // The location that was searched, not the text currently in the search box.
+    location: string | null;
+    specialties: string[];
+    availability: ArtistAvailabilityFilter;
+    sort: ArtistSort;
+}
+
+export const readArtistSearchQuery = (params: URLSearchParams): ArtistSearchQuery => ({
+    location: params.get('location')?.trim() || null,
+    specialties: params.getAll('specialty'),
+    availability: params.get('availability') === 'accepting' ? 'accepting' : 'all',
+    sort: params.get('sort') === 'styleMatch' ? 'styleMatch' : 'default',
+});
+
+// Defaults are left out so links stay short.
+export const artistSearchPath = (query: ArtistSearchQuery): string => {
+    const params = new URLSearchParams();
+    if (query.location) params.set('location', query.location);
+    query.specialties.forEach(specialty => params.append('specialty', specialty));
+    if (query.availability !== 'all') params.set('availability', query.availability);
+    if (query.sort !== 'default') params.set('sort', query.sort);
+    const search = params.toString();
+    return search ? `${STEP_PATHS.FIND_ARTIST}?${search}` : STEP_PATHS.FIND_ARTIST;
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SkinBlendSettings } from '../types';
+
+// Client-side approximation of ink in skin. Layers are drawn with multiply so
+// the photo's luminance and texture show through the ink, and this filter
+// thins and ages the ink itself before it is composited.
+
+export const DEFAULT_SKIN_BLEND: SkinBlendSettings = {
+    enabled: false,
+    inkDensity: 0.85,
+    healing: 0.3,
+};
+
+// Ink always sits slightly under the skin, so even fresh ink is softened a little.
+const MIN_BLUR_RADIUS = 1;
+const MAX_BLUR_RADIUS = 4;
+
+export const skinBlendBlurRadius = (settings: SkinBlendSettings, layerSize: number): number => {
+    // Radii are in layer pixels, so scale with the layer to look the same on any photo.
+    const sizeFactor = Math.max(1, layerSize / 600);
+    return Math.round((MIN_BLUR_RADIUS + settings.healing * (MAX_BLUR_RADIUS - MIN_BLUR_RADIUS)) * sizeFactor);
+};
+
+// Returns a Konva filter. Healed ink is less saturated, lighter, and black ink
+// drifts towards blue-green; density fades the ink towards white, which is a
+// no-op under multiply.
+export const createInkAgingFilter = (settings: SkinBlendSettings) => {
+    const desaturation = 0.15 + 0.45 * settings.healing;
+    const strength = settings.inkDensity * (1 - 0.25 * settings.healing);
+    const drift = 14 * settings.healing;
+
+    return (imageData: ImageData) => {
+        const data = imageData.data;
+        for (let i = 0; i < data.length; i += 4) {
+            let r = data[i];
+            let g = data[i + 1];
+            let b = data[i + 2];
+            const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+
+            r += (luminance - r) * desaturation;
+            g += (luminance - g) * desaturation;
+            b += (luminance - b) * desaturation;
+
+            const darkness = 1 - luminance / 255;
+            r -= drift * 0.3 * darkness;
+            g += drift * 0.4 * darkness;
+            b += drift * darkness;
+
+            data[i] = 255 - (255 - Math.min(255, Math.max(0, r))) * strength;
+            data[i + 1] = 255 - (255 - Math.min(255, Math.max(0, g))) * strength;
+            data[i + 2] = 255 - (255 - Math.min(255, Math.max(0, b))) * strength;
+        }
+    };
+};
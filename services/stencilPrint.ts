@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { jsPDF } from 'jspdf';
+import { loadImage } from './imageUtils';
+
+// Builds a print-ready PDF with the stencil at its true physical size. All
+// layout is in millimetres; the PDF only prints at the right size when the
+// print dialog is set to 100% / actual size, which the ruler lets users check.
+
+export type PaperSize = 'a4' | 'letter';
+export type SizeUnit = 'cm' | 'in';
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+    a4: { label: 'A4', width: 210, height: 297 },
+    letter: { label: 'Letter', width: 215.9, height: 279.4 },
+};
+
+export const MM_PER_UNIT: Record<SizeUnit, number> = { cm: 10, in: 25.4 };
+
+export interface StencilPrintOptions {
+    // Intended width of the tattoo on skin; the height follows the stencil's aspect ratio.
+    width: number;
+    unit: SizeUnit;
+    paper: PaperSize;
+    includeMirrored: boolean;
+    title: string;
+    artistName: string;
+}
+
+const PRINT_DPI = 300;
+const PAGE_MARGIN = 12;
+const HEADER_HEIGHT = 18;
+const FOOTER_HEIGHT = 22;
+// Space kept around each stencil for registration marks and its caption.
+const MARK_OFFSET = 5;
+const MARK_RADIUS = 2.5;
+const CAPTION_HEIGHT = 6;
+
+const formatLength = (mm: number, unit: SizeUnit) => `${(mm / MM_PER_UNIT[unit]).toFixed(unit === 'cm' ? 1 : 2)} ${unit}`;
+
+// Renders the stencil at print resolution for its physical size.
+const renderStencilForPrint = async (src: string, widthMm: number, heightMm: number, mirrored: boolean): Promise<string> => {
+    const image = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round((widthMm / 25.4) * PRINT_DPI);
+    canvas.height = Math.round((heightMm / 25.4) * PRINT_DPI);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (mirrored) {
+        ctx.translate(canvas.width, 0);
+        ctx.scale(-1, 1);
+    }
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+const drawRegistrationMark = (doc: jsPDF, x: number, y: number) => {
+    doc.circle(x, y, MARK_RADIUS, 'S');
+    doc.line(x - MARK_RADIUS * 1.6, y, x + MARK_RADIUS * 1.6, y);
+    doc.line(x, y - MARK_RADIUS * 1.6, x, y + MARK_RADIUS * 1.6);
+};
+
+const drawStencil = (doc: jsPDF, image: string, x: number, y: number, width: number, height: number, caption: string) => {
+    doc.addImage(image, 'PNG', x, y, width, height);
+    doc.setLineWidth(0.2);
+    drawRegistrationMark(doc, x - MARK_OFFSET, y - MARK_OFFSET);
+    drawRegistrationMark(doc, x + width + MARK_OFFSET, y - MARK_OFFSET);
+    drawRegistrationMark(doc, x - MARK_OFFSET, y + height + MARK_OFFSET);
+    drawRegistrationMark(doc, x + width + MARK_OFFSET, y + height + MARK_OFFSET);
+    // Centre ticks on each side, for lining the transfer up with the placement.
+    doc.line(x + width / 2, y - MARK_OFFSET - 1.5, x + width / 2, y - 1);
+    doc.line(x + width / 2, y + height + 1, x + width / 2, y + height + MARK_OFFSET + 1.5);
+    doc.line(x - MARK_OFFSET - 1.5, y + height / 2, x - 1, y + height / 2);
+    doc.line(x + width + 1, y + height / 2, x + width + MARK_OFFSET + 1.5, y + height / 2);
+    doc.setFontSize(8);
+    doc.text(caption, x + width / 2, y + height + MARK_OFFSET + CAPTION_HEIGHT, { align: 'center' });
+};
+
+const drawRuler = (doc: jsPDF, x: number, y: number, maxLength: number, unit: SizeUnit) => {
+    const unitMm = MM_PER_UNIT[unit];
+    const units = Math.max(1, Math.floor(Math.min(maxLength, unit === 'cm' ? 100 : 4 * unitMm) / unitMm));
+    const length = units * unitMm;
+    const subdivisions = unit === 'cm' ? 10 : 8;
+
+    doc.setLineWidth(0.2);
+    doc.line(x, y, x + length, y);
+    doc.setFontSize(7);
+    for (let i = 0; i <= units * subdivisions; i++) {
+        const tickX = x + (i * unitMm) / subdivisions;
+        const isMajor = i % subdivisions === 0;
+        const isHalf = i % (subdivisions / 2) === 0;
+        doc.line(tickX, y, tickX, y - (isMajor ? 4 : isHalf ? 2.5 : 1.5));
+        if (isMajor) doc.text(String(i / subdivisions), tickX, y - 5, { align: 'center' });
+    }
+    doc.text(`${units} ${unit}: print at 100% (actual size) and check this ruler before transferring.`, x, y + 4);
+};
+
+export const createStencilSheet = async (stencilSrc: string, options: StencilPrintOptions): Promise<Blob> => {
+    if (!(options.width > 0)) {
+        throw new Error('Enter the size the tattoo should be on the skin.');
+    }
+    const source = await loadImage(stencilSrc);
+    const widthMm = options.width * MM_PER_UNIT[options.unit];
+    const heightMm = widthMm * (source.naturalHeight / source.naturalWidth);
+    const copies = options.includeMirrored ? 2 : 1;
+
+    // Footprint of one stencil including its marks and caption.
+    const boxWidth = widthMm + 2 * (MARK_OFFSET + MARK_RADIUS);
+    const boxHeight = heightMm + 2 * (MARK_OFFSET + MARK_RADIUS) + CAPTION_HEIGHT;
+    const gap = 6;
+
+    // Prefer one page: portrait or landscape, copies side by side or stacked.
+    const paper = PAPER_SIZES[options.paper];
+    const layouts = (['portrait', 'landscape'] as const).flatMap(orientation => {
+        const pageWidth = orientation === 'portrait' ? paper.width : paper.height;
+        const pageHeight = orientation === 'portrait' ? paper.height : paper.width;
+        const areaWidth = pageWidth - 2 * PAGE_MARGIN;
+        const areaHeight = pageHeight - 2 * PAGE_MARGIN - HEADER_HEIGHT - FOOTER_HEIGHT;
+        return (['row', 'column'] as const).map(direction => {
+            const totalWidth = direction === 'row' ? copies * boxWidth + (copies - 1) * gap : boxWidth;
+            const totalHeight = direction === 'column' ? copies * boxHeight + (copies - 1) * gap : boxHeight;
+            return { orientation, direction, pageWidth, pageHeight, areaWidth, areaHeight, fits: totalWidth <= areaWidth && totalHeight <= areaHeight, fitsSingle: boxWidth <= areaWidth && boxHeight <= areaHeight };
+        });
+    });
+    const layout = layouts.find(l => l.fits) ?? layouts.find(l => l.fitsSingle);
+    if (!layout) {
+        throw new Error(`A ${formatLength(widthMm, options.unit)} wide stencil does not fit on ${paper.label} paper. Choose a smaller size.`);
+    }
+    const onePage = layout.fits;
+
+    const [stencil, mirrored] = await Promise.all([
+        renderStencilForPrint(stencilSrc, widthMm, heightMm, false),
+        options.includeMirrored ? renderStencilForPrint(stencilSrc, widthMm, heightMm, true) : Promise.resolve(null),
+    ]);
+
+    const doc = new jsPDF({ unit: 'mm', format: options.paper, orientation: layout.orientation });
+    const sizeLabel = `${formatLength(widthMm, options.unit)} x ${formatLength(heightMm, options.unit)}`;
+
+    const drawPageFrame = () => {
+        doc.setFontSize(13);
+        doc.text(options.title, PAGE_MARGIN, PAGE_MARGIN + 5);
+        doc.setFontSize(9);
+        doc.text(`Artist: ${options.artistName}   Size: ${sizeLabel}   Printed: ${new Date().toLocaleDateString()}`, PAGE_MARGIN, PAGE_MARGIN + 11);
+        drawRuler(doc, PAGE_MARGIN, layout.pageHeight - PAGE_MARGIN - 8, layout.areaWidth, options.unit);
+    };
+
+    const items = [
+        { image: stencil, caption: 'Stencil (as seen on skin)' },
+        ...(mirrored ? [{ image: mirrored, caption: 'Mirrored transfer copy' }] : []),
+    ];
+    const inset = MARK_OFFSET + MARK_RADIUS;
+    const top = PAGE_MARGIN + HEADER_HEIGHT;
+
+    if (onePage) {
+        drawPageFrame();
+        const totalWidth = layout.direction === 'row' ? items.length * boxWidth + (items.length - 1) * gap : boxWidth;
+        const totalHeight = layout.direction === 'column' ? items.length * boxHeight + (items.length - 1) * gap : boxHeight;
+        const startX = PAGE_MARGIN + (layout.areaWidth - totalWidth) / 2;
+        const startY = top + (layout.areaHeight - totalHeight) / 2;
+        items.forEach((item, i) => {
+            const x = startX + (layout.direction === 'row' ? i * (boxWidth + gap) : 0) + inset;
+            const y = startY + (layout.direction === 'column' ? i * (boxHeight + gap) : 0) + inset;
+            drawStencil(doc, item.image, x, y, widthMm, heightMm, item.caption);
+        });
+    } else {
+        items.forEach((item, i) => {
+            if (i > 0) doc.addPage(options.paper, layout.orientation);
+            drawPageFrame();
+            const x = PAGE_MARGIN + (layout.areaWidth - boxWidth) / 2 + inset;
+            const y = top + (layout.areaHeight - boxHeight) / 2 + inset;
+            drawStencil(doc, item.image, x, y, widthMm, heightMm, item.caption);
+        });
+    }
+
+    return doc.output('blob');
+};
@@ -0,0 +1,327 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { StencilOptions } from '../types';
+import { loadImage } from './imageUtils';
+import { fitWithin } from './photoTransform';
+
+// Deterministic stencil pipeline: the design is reduced to a line mask
+// (thin strokes, outlines of filled shapes and strong color edges), thinned
+// to a one-pixel skeleton, traced into polylines and simplified into SVG.
+// The same design and options always produce the same stencil.
+
+export const DEFAULT_STENCIL_OPTIONS: StencilOptions = {
+    detail: 0.5,
+    lineWeight: 3,
+};
+
+// Working resolution range, chosen by the detail level.
+const MIN_WORK_SIDE = 320;
+const MAX_WORK_SIDE = 1024;
+// Line weight is expressed per 1000px of the stencil's longest side.
+const LINE_WEIGHT_REFERENCE = 1000;
+// Longest side of the exported PNG, i.e. 10in at 300 DPI.
+export const STENCIL_PNG_SIZE = 3000;
+
+type Point = { x: number; y: number };
+
+export interface StencilTrace {
+    // Size of the source design; path coordinates are in this space.
+    width: number;
+    height: number;
+    paths: Point[][];
+}
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+const otsuThreshold = (gray: Uint8ClampedArray): number => {
+    const histogram = new Array(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+    const total = gray.length;
+    const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+
+    let sumBackground = 0;
+    let weightBackground = 0;
+    let bestVariance = -1;
+    let threshold = 128;
+    for (let t = 0; t < 256; t++) {
+        weightBackground += histogram[t];
+        if (weightBackground === 0) continue;
+        const weightForeground = total - weightBackground;
+        if (weightForeground === 0) break;
+        sumBackground += t * histogram[t];
+        const meanBackground = sumBackground / weightBackground;
+        const meanForeground = (sumAll - sumBackground) / weightForeground;
+        const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            threshold = t;
+        }
+    }
+    return threshold;
+};
+
+// Binary erosion with a square of the given radius, done as two separable passes.
+const erode = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+    const horizontal = new Uint8Array(mask.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let keep = 1;
+            for (let dx = -radius; dx <= radius && keep; dx++) {
+                const nx = x + dx;
+                if (nx < 0 || nx >= width || !mask[y * width + nx]) keep = 0;
+            }
+            horizontal[y * width + x] = keep;
+        }
+    }
+    const result = new Uint8Array(mask.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let keep = 1;
+            for (let dy = -radius; dy <= radius && keep; dy++) {
+                const ny = y + dy;
+                if (ny < 0 || ny >= height || !horizontal[ny * width + x]) keep = 0;
+            }
+            result[y * width + x] = keep;
+        }
+    }
+    return result;
+};
+
+const buildLineMask = (gray: Uint8ClampedArray, width: number, height: number, detail: number): Uint8Array => {
+    const threshold = Math.min(otsuThreshold(gray), 200);
+    const dark = new Uint8Array(gray.length);
+    gray.forEach((value, i) => { dark[i] = value <= threshold ? 1 : 0; });
+
+    // Areas that survive erosion are fills; only their outline belongs in the stencil.
+    const radius = Math.max(2, Math.round(Math.max(width, height) / 250));
+    const core = erode(dark, width, height, radius);
+
+    const edgeThreshold = lerp(80, 25, detail);
+    const mask = new Uint8Array(gray.length);
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const gx = gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1] - gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1];
+            const gy = gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1] - gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1];
+            const isEdge = Math.hypot(gx, gy) / 4 > edgeThreshold;
+            mask[i] = isEdge || (dark[i] && !core[i]) ? 1 : 0;
+        }
+    }
+    return mask;
+};
+
+// Zhang-Suen thinning, in place.
+const thin = (mask: Uint8Array, width: number, height: number) => {
+    const toClear: number[] = [];
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (let step = 0; step < 2; step++) {
+            toClear.length = 0;
+            for (let y = 1; y < height - 1; y++) {
+                for (let x = 1; x < width - 1; x++) {
+                    const i = y * width + x;
+                    if (!mask[i]) continue;
+                    const p2 = mask[i - width], p3 = mask[i - width + 1], p4 = mask[i + 1], p5 = mask[i + width + 1];
+                    const p6 = mask[i + width], p7 = mask[i + width - 1], p8 = mask[i - 1], p9 = mask[i - width - 1];
+                    const neighbours = p2 + p3 + p4 + p5 + p6 + p7 + p8 + p9;
+                    if (neighbours < 2 || neighbours > 6) continue;
+                    const sequence = [p2, p3, p4, p5, p6, p7, p8, p9, p2];
+                    let transitions = 0;
+                    for (let k = 0; k < 8; k++) {
+                        if (!sequence[k] && sequence[k + 1]) transitions++;
+                    }
+                    if (transitions !== 1) continue;
+                    if (step === 0 ? (p2 && p4 && p6) || (p4 && p6 && p8) : (p2 && p4 && p8) || (p2 && p6 && p8)) continue;
+                    toClear.push(i);
+                }
+            }
+            toClear.forEach(i => { mask[i] = 0; });
+            if (toClear.length > 0) changed = true;
+        }
+    }
+
+    // Zhang-Suen leaves L-shaped corners on diagonal runs. The corner pixel is
+    // redundant for 8-connectivity and would otherwise read as a junction.
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            if (!mask[i]) continue;
+            const n = mask[i - width], e = mask[i + 1], s = mask[i + width], w = mask[i - 1];
+            if ((n && e && !s && !w && !mask[i + width - 1])
+                || (e && s && !n && !w && !mask[i - width - 1])
+                || (s && w && !n && !e && !mask[i - width + 1])
+                || (w && n && !s && !e && !mask[i + width + 1])) {
+                mask[i] = 0;
+            }
+        }
+    }
+};
+
+// Walks the skeleton into polylines, splitting at endpoints and junctions.
+const traceSkeleton = (mask: Uint8Array, width: number, height: number): number[][] => {
+    // Orthogonal neighbours first, so walks never cut a corner they could follow.
+    const offsets = [-width, 1, width, -1, -width + 1, width + 1, width - 1, -width - 1];
+    const neighbours = (i: number) => {
+        const x = i % width;
+        return offsets
+            .map(offset => i + offset)
+            .filter(j => j >= 0 && j < mask.length && Math.abs((j % width) - x) <= 1 && mask[j]);
+    };
+    const degree = (i: number) => neighbours(i).length;
+    const isNode = (i: number) => degree(i) !== 2;
+    const visited = new Uint8Array(mask.length);
+    const paths: number[][] = [];
+    const nodeLinks = new Set<string>();
+
+    const walk = (start: number, first: number) => {
+        const path = [start];
+        let previous = start;
+        let current = first;
+        for (;;) {
+            path.push(current);
+            if (isNode(current) || visited[current]) break;
+            visited[current] = 1;
+            const next = neighbours(current).find(j => j !== previous && (!visited[j] || isNode(j) || j === start));
+            if (next === undefined) break;
+            previous = current;
+            current = next;
+        }
+        paths.push(path);
+    };
+
+    for (let i = 0; i < mask.length; i++) {
+        if (!mask[i] || !isNode(i) || degree(i) === 0) continue;
+        visited[i] = 1;
+        neighbours(i).forEach(j => {
+            if (isNode(j)) {
+                const key = i < j ? `${i}-${j}` : `${j}-${i}`;
+                if (!nodeLinks.has(key)) {
+                    nodeLinks.add(key);
+                    paths.push([i, j]);
+                }
+            } else if (!visited[j]) {
+                walk(i, j);
+            }
+        });
+    }
+
+    // Whatever is left forms closed loops with no endpoints.
+    for (let i = 0; i < mask.length; i++) {
+        if (!mask[i] || visited[i]) continue;
+        visited[i] = 1;
+        walk(i, neighbours(i)[0]);
+    }
+
+    return paths;
+};
+
+// Ramer-Douglas-Peucker polyline simplification.
+const simplify = (points: Point[], epsilon: number): Point[] => {
+    if (points.length < 3) return points;
+    const keep = new Uint8Array(points.length);
+    keep[0] = 1;
+    keep[points.length - 1] = 1;
+    const stack: [number, number][] = [[0, points.length - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        const a = points[first];
+        const b = points[last];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        let maxDistance = 0;
+        let index = -1;
+        for (let i = first + 1; i < last; i++) {
+            const p = points[i];
+            const distance = length === 0
+                ? Math.hypot(p.x - a.x, p.y - a.y)
+                : Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length;
+            if (distance > maxDistance) {
+                maxDistance = distance;
+                index = i;
+            }
+        }
+        if (index !== -1 && maxDistance > epsilon) {
+            keep[index] = 1;
+            stack.push([first, index], [index, last]);
+        }
+    }
+    return points.filter((_, i) => keep[i]);
+};
+
+export const traceStencil = async (src: string, detail: number): Promise<StencilTrace> => {
+    const image = await loadImage(src);
+    const workSide = Math.round(lerp(MIN_WORK_SIDE, MAX_WORK_SIDE, detail));
+    const work = fitWithin(image.naturalWidth, image.naturalHeight, workSide, workSide);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = work.width;
+    canvas.height = work.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    // Transparent designs are traced as if on white paper.
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, work.width, work.height);
+    ctx.drawImage(image, 0, 0, work.width, work.height);
+
+    const { data } = ctx.getImageData(0, 0, work.width, work.height);
+    const gray = new Uint8ClampedArray(work.width * work.height);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+
+    const mask = buildLineMask(gray, work.width, work.height, detail);
+    thin(mask, work.width, work.height);
+
+    const minLength = lerp(12, 3, detail);
+    const epsilon = lerp(1.5, 0.6, detail);
+    const toSource = 1 / work.scale;
+    const paths = traceSkeleton(mask, work.width, work.height)
+        .filter(path => path.length >= minLength)
+        .map(path => simplify(path.map(i => ({ x: i % work.width + 0.5, y: Math.floor(i / work.width) + 0.5 })), epsilon))
+        .map(path => path.map(p => ({ x: p.x * toSource, y: p.y * toSource })));
+
+    return { width: image.naturalWidth, height: image.naturalHeight, paths };
+};
+
+export const renderStencilSvg = (trace: StencilTrace, lineWeight: number): string => {
+    const strokeWidth = (lineWeight * Math.max(trace.width, trace.height)) / LINE_WEIGHT_REFERENCE;
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const d = trace.paths
+        .map(path => path.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)} ${round(p.y)}`).join(''))
+        .join('');
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${trace.width}" height="${trace.height}" viewBox="0 0 ${trace.width} ${trace.height}">`,
+        `<rect width="100%" height="100%" fill="#fff"/>`,
+        `<path d="${d}" fill="none" stroke="#000" stroke-width="${round(strokeWidth)}" stroke-linecap="round" stroke-linejoin="round"/>`,
+        `</svg>`,
+    ].join('');
+};
+
+// Stencil SVG markup is plain ASCII, so it can go straight through btoa.
+export const svgToDataURL = (svg: string): string => `data:image/svg+xml;base64,${btoa(svg)}`;
+
+// Rasterizes the stencil as pure black on white with no anti-aliasing grays,
+// which thermal stencil printers would otherwise dither into speckles.
+export const rasterizeStencil = async (svg: string, longestSide = STENCIL_PNG_SIZE): Promise<string> => {
+    const image = await loadImage(svgToDataURL(svg));
+    const scale = longestSide / Math.max(image.naturalWidth, image.naturalHeight);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        const value = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] < 128 ? 0 : 255;
+        data[i] = data[i + 1] = data[i + 2] = value;
+        data[i + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
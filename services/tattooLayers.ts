@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { TattooBlendMode, TattooLayer } from '../types';
+
+// Layers are ordered bottom to top, matching Konva's draw order.
+
+export const BLEND_MODES: { value: TattooBlendMode; label: string }[] = [
+    { value: 'normal', label: 'Normal' },
+    { value: 'multiply', label: 'Multiply' },
+    { value: 'darken', label: 'Darken' },
+];
+
+export const COMPOSITE_OPERATIONS: Record<TattooBlendMode, GlobalCompositeOperation> = {
+    normal: 'source-over',
+    multiply: 'multiply',
+    darken: 'darken',
+};
+
+// New designs start centered and sized to 40% of the smaller stage side.
+const INITIAL_SIZE_RATIO = 0.4;
+
+let layerCounter = 0;
+
+export const createTattooLayer = (
+    image: string,
+    name: string,
+    naturalSize: { width: number; height: number },
+    stageSize: { width: number; height: number }
+): TattooLayer => {
+    const target = Math.min(stageSize.width, stageSize.height) * INITIAL_SIZE_RATIO;
+    const fit = target / Math.max(naturalSize.width, naturalSize.height);
+    const width = naturalSize.width * fit;
+    const height = naturalSize.height * fit;
+    layerCounter += 1;
+    return {
+        id: `layer_${Date.now()}_${layerCounter}`,
+        name,
+        image,
+        x: (stageSize.width - width) / 2,
+        y: (stageSize.height - height) / 2,
+        width,
+        height,
+        scaleX: 1,
+        scaleY: 1,
+        rotation: 0,
+        opacity: 1,
+        // Multiply lets the skin's tone and texture show through the ink.
+        blendMode: 'multiply',
+        visible: true,
+        locked: false,
+    };
+};
+
+export const updateLayer = (layers: TattooLayer[], layerId: string, updates: Partial<TattooLayer>): TattooLayer[] =>
+    layers.map(layer => layer.id === layerId ? { ...layer, ...updates } : layer);
+
+export const removeLayer = (layers: TattooLayer[], layerId: string): TattooLayer[] =>
+    layers.filter(layer => layer.id !== layerId);
+
+// 'up' brings the layer one step towards the front.
+export const moveLayer = (layers: TattooLayer[], layerId: string, direction: 'up' | 'down'): TattooLayer[] => {
+    const index = layers.findIndex(layer => layer.id === layerId);
+    const target = direction === 'up' ? index + 1 : index - 1;
+    if (index === -1 || target < 0 || target >= layers.length) return layers;
+    const reordered = [...layers];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+};
+
+// Keeps layers in place when the photo they sit on is re-cropped to a new size.
+export const rescaleLayers = (
+    layers: TattooLayer[],
+    from: { width: number; height: number },
+    to: { width: number; height: number }
+): TattooLayer[] => {
+    const scaleX = to.width / from.width;
+    const scaleY = to.height / from.height;
+    const sizeScale = Math.min(scaleX, scaleY);
+    return layers.map(layer => ({
+        ...layer,
+        x: layer.x * scaleX,
+        y: layer.y * scaleY,
+        width: layer.width * sizeScale,
+        height: layer.height * sizeScale,
+    }));
+};
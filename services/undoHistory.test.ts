@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { COALESCE_WINDOW_MS, createHistory, HISTORY_LIMIT, pushHistory, redoHistory, undoHistory } from './undoHistory';
+
+describe('undoHistory', () => {
+    it('undoes and redoes pushed states', () => {
+        const history = pushHistory(pushHistory(createHistory('a'), 'b', undefined, 1), 'c', undefined, 2);
+        const undone = undoHistory(undoHistory(history));
+        expect(undone.present).toBe('a');
+        expect(undone.future).toEqual(['b', 'c']);
+
+        const redone = redoHistory(undone);
+        expect(redone.present).toBe('b');
+        expect(redone.past).toEqual(['a']);
+        expect(redone.future).toEqual(['c']);
+    });
+
+    it('leaves the history alone when there is nothing to undo or redo', () => {
+        const history = createHistory('a');
+        expect(undoHistory(history)).toBe(history);
+        expect(redoHistory(history)).toBe(history);
+    });
+
+    it('ignores pushing the current state', () => {
+        const history = createHistory('a');
+        expect(pushHistory(history, 'a')).toBe(history);
+    });
+
+    it('drops the redo stack on a new change', () => {
+        const undone = undoHistory(pushHistory(createHistory('a'), 'b', undefined, 1));
+        const history = pushHistory(undone, 'c', undefined, 2);
+        expect(history.past).toEqual(['a']);
+        expect(history.future).toEqual([]);
+    });
+
+    it('collapses pushes with the same key inside the window into one entry', () => {
+        const dragged = pushHistory(pushHistory(createHistory(0), 1, 'opacity', 1000), 2, 'opacity', 1500);
+        expect(dragged.past).toEqual([0]);
+        expect(undoHistory(dragged).present).toBe(0);
+
+        expect(pushHistory(dragged, 3, 'rotation', 1600).past).toEqual([0, 2]);
+        expect(pushHistory(dragged, 3, 'opacity', 1500 + COALESCE_WINDOW_MS).past).toEqual([0, 2]);
+    });
+
+    it('does not collapse into a state restored by undo', () => {
+        const dragged = pushHistory(pushHistory(createHistory(0), 1, 'opacity', 1000), 2, 'opacity', 1100);
+        const history = pushHistory(undoHistory(dragged), 5, 'opacity', 1200);
+        expect(history.past).toEqual([0]);
+    });
+
+    it(`keeps at most ${HISTORY_LIMIT} past states`, () => {
+        let history = createHistory(0);
+        for (let i = 1; i <= HISTORY_LIMIT + 10; i++) history = pushHistory(history, i, undefined, i);
+        expect(history.past).toHaveLength(HISTORY_LIMIT);
+        expect(history.past[0]).toBe(10);
+    });
+});
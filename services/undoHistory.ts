@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Immutable undo/redo stack. Every state pushed here must be serializable
+// and never mutated in place, so past entries stay valid snapshots.
+
+export const HISTORY_LIMIT = 100;
+// Consecutive pushes with the same key inside this window collapse into one
+// entry, e.g. all the intermediate values of a slider drag.
+export const COALESCE_WINDOW_MS = 1000;
+
+export interface UndoHistory<T> {
+    past: T[];
+    present: T;
+    future: T[];
+    lastKey: string | null;
+    lastPushedAt: number;
+}
+
+export const createHistory = <T>(present: T): UndoHistory<T> => ({
+    past: [],
+    present,
+    future: [],
+    lastKey: null,
+    lastPushedAt: 0,
+});
+
+export const pushHistory = <T>(history: UndoHistory<T>, present: T, coalesceKey?: string, now: number = Date.now()): UndoHistory<T> => {
+    if (present === history.present) return history;
+    const coalesce = coalesceKey !== undefined
+        && coalesceKey === history.lastKey
+        && now - history.lastPushedAt < COALESCE_WINDOW_MS;
+    return {
+        past: coalesce ? history.past : [...history.past, history.present].slice(-HISTORY_LIMIT),
+        present,
+        future: [],
+        lastKey: coalesceKey ?? null,
+        lastPushedAt: now,
+    };
+};
+
+export const undoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+    if (history.past.length === 0) return history;
+    return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+        lastKey: null,
+        lastPushedAt: 0,
+    };
+};
+
+export const redoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+    if (history.future.length === 0) return history;
+    return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+        lastKey: null,
+        lastPushedAt: 0,
+    };
+};
@@ -0,0 +1,539 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { createContext, useContext, useEffect, useMemo, useReducer, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useLocation, useNavigate, useSearchParams } from 'react-router';
+import { listProjects, saveProject, deleteProject, StorageQuotaError } from '../services/projectRepository';
+import { createDraftId, defaultDraftName, DEFAULT_ARTIST_LOCATION, deleteDraft, draftThumbnail, isDraftEmpty, listDrafts, loadDraft, renameDraft, saveDraft } from '../services/draftRepository';
+import { exportProjectsBundle, readProjectsBundle, resolveImportConflicts, bundleFileName, ImportConflictStrategy } from '../services/projectBundle';
+import { createContract } from '../services/contractService';
+import { createTattooLayer } from '../services/tattooLayers';
+import { dataURLtoFile, downloadBlob, loadImage } from '../services/imageUtils';
+import { loadGenerationSettings, saveGenerationSettings } from '../services/generationSettings';
+import { DEFAULT_WHITE_TOLERANCE, removeWhiteBackground } from '../services/backgroundRemoval';
+import { ArtistSearchQuery, artistSearchPath, matchProjectPath, projectPath, readArtistSearchQuery, STEP_PATHS, stepFromPath } from '../services/routes';
+import { createDesignVersion, getVersionTree, resolveProvenance, UPLOADED_DESIGN_MODEL } from '../services/designVersions';
+import { getChatModel } from '../services/geminiService';
+import { Task, TaskKind, taskMutationKey, useTasks } from '../hooks/useTasks';
+import type { AppStep, Artist, DesignVersion, DraftState, Message, Project, TattooLayer } from '../types';
+import { createInitialSessionState, ProjectUpdate, sessionReducer } from './sessionReducer';
+import { selectDraftState, selectTryOnLayout } from './selectors';
+import { SessionTasks, useSessionTasks } from './useSessionTasks';
+
+const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+
+// What the task tray can do with a job. Method syntax lets each mutation keep its own variable type.
+interface TaskControls {
+    mutate(variables: unknown): void;
+    cancel(variables?: unknown): void;
+    clear(variables: unknown): void;
+}
+
+// What a task of the given kind was started with.
+type TaskVariables<K extends TaskKind> = Parameters<SessionTasks[K]['mutate']>[0];
+
+// A task whose variables are typed by its kind, so checking `kind` narrows them.
+type SessionTask = { [K in TaskKind]: Omit<Task, 'kind' | 'variables'> & { kind: K; variables: TaskVariables<K> } }[TaskKind];
+
+// The one place session state lives. Steps read the state and the current
+// route from here and change them through the commands below, which pair
+// reducer actions with the storage, AI and navigation work they need.
+const useSessionStoreValue = () => {
+    // Routing
+    const { pathname, search } = useLocation();
+    const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
+    // Null on a path that belongs to no step.
+    const appStep = stepFromPath(pathname);
+    const viewingProjectId = matchProjectPath(pathname);
+    const artistQuery = useMemo(() => readArtistSearchQuery(searchParams), [searchParams]);
+    // The artist search to return to after visiting other steps.
+    const lastArtistQueryRef = useRef<ArtistSearchQuery>(artistQuery);
+    // The location whose results are showing, so a search is only run again when the URL asks for a different one.
+    const searchedLocationRef = useRef<string | null>(null);
+    // Read by task callbacks, which may finish after the user has moved to another step.
+    const appStepRef = useRef<AppStep | null>(appStep);
+
+    const goToStep = (step: AppStep) => navigate(step === 'FIND_ARTIST' ? artistSearchPath(lastArtistQueryRef.current) : STEP_PATHS[step]);
+    const openProject = (projectId: string) => navigate(projectPath(projectId));
+
+    // State
+    const [state, dispatch] = useReducer(sessionReducer, null, () => createInitialSessionState({
+        generationSettings: loadGenerationSettings(),
+        locationSearch: artistQuery.location ?? DEFAULT_ARTIST_LOCATION,
+    }));
+    const stateRef = useRef(state);
+    const viewingProject = viewingProjectId ? state.projects.find(p => p.id === viewingProjectId) ?? null : null;
+
+    useEffect(() => {
+        stateRef.current = state;
+    }, [state]);
+
+    useEffect(() => {
+        appStepRef.current = appStep;
+    }, [appStep]);
+
+    // Background Tasks
+    const tasks = useSessionTasks(dispatch, () => stateRef.current, () => {
+        // Move on only if the user is still waiting on the try-on; elsewhere the result waits in the task tray.
+        if (appStepRef.current === 'TRY_ON') goToStep('DONE');
+    });
+    const queryClient = useQueryClient();
+    const taskList = useTasks();
+    const taskControls: Record<TaskKind, TaskControls> = tasks;
+
+    const isTaskRunning = <K extends TaskKind>(kind: K, matches: (variables: TaskVariables<K>) => boolean = () => true) =>
+        taskList.some(task => task.kind === kind && task.status === 'pending' && matches(task.variables as TaskVariables<K>));
+
+    const cancelAllTasks = () => Object.values(taskControls).forEach(controls => controls.cancel());
+
+    const handleCancelTask = (task: Task) => taskControls[task.kind].cancel(task.variables);
+
+    const handleDismissTask = (task: Task) => {
+        taskControls[task.kind].clear(task.variables);
+        const mutation = queryClient.getMutationCache().find({ mutationKey: taskMutationKey(task.kind), predicate: m => m.mutationId === task.id });
+        if (mutation) queryClient.getMutationCache().remove(mutation);
+    };
+
+    const handleRetryTask = (task: Task) => {
+        handleDismissTask(task);
+        taskControls[task.kind].mutate(task.variables);
+    };
+
+    // Takes the user to wherever the task's result landed.
+    const handleViewTask = (task: Task) => {
+        // Every task is keyed by its kind, so its variables are those of that kind's mutation.
+        const sessionTask = task as SessionTask;
+        switch (sessionTask.kind) {
+            case 'generate':
+            case 'reference':
+            case 'style':
+                goToStep('DESIGN');
+                break;
+            case 'refine': {
+                const { parent } = sessionTask.variables;
+                goToStep('DESIGN');
+                if (state.designVersions.some(version => version.id === parent.id)) dispatch({ type: 'refiningVersionChanged', versionId: parent.id });
+                break;
+            }
+            case 'blend':
+                if (state.finalImage) goToStep('DONE');
+                break;
+            case 'artists':
+                goToStep('FIND_ARTIST');
+                break;
+            case 'stencil':
+                openProject(sessionTask.variables.projectId);
+                break;
+            case 'chat':
+                openProject(sessionTask.variables.project.id);
+                break;
+        }
+        handleDismissTask(task);
+    };
+
+    // Project Storage
+    const handleStorageError = (error: unknown) => {
+        console.error("Failed to access saved projects", error);
+        dispatch({ type: 'storageErrorRaised', message: error instanceof StorageQuotaError ? error.message : 'Your projects could not be saved. Changes may be lost when you leave the page.' });
+    };
+
+    // The projects as last written to storage; null until they have been loaded.
+    const savedProjectsRef = useRef<Project[] | null>(null);
+
+    useEffect(() => {
+        saveGenerationSettings(state.generationSettings);
+    }, [state.generationSettings]);
+
+    useEffect(() => {
+        listProjects()
+            .catch(error => {
+                handleStorageError(error);
+                return [];
+            })
+            .then(projects => {
+                savedProjectsRef.current = projects;
+                dispatch({ type: 'projectsLoaded', projects });
+            });
+    }, []);
+
+    // The reducer never touches storage. Any project that is new or changed since the last write is saved here.
+    useEffect(() => {
+        const saved = savedProjectsRef.current;
+        if (!saved) return;
+        const unchanged = new Set(saved);
+        state.projects.filter(project => !unchanged.has(project)).forEach(project => saveProject(project).catch(handleStorageError));
+        savedProjectsRef.current = state.projects;
+    }, [state.projects]);
+
+    const updateProject = (projectId: string, updates: ProjectUpdate) => dispatch({ type: 'projectUpdated', projectId, updates });
+
+    // Drafts
+    useEffect(() => {
+        listDrafts().then(drafts => dispatch({ type: 'draftsListed', drafts })).catch(handleStorageError);
+    }, []);
+
+    const draftState = useMemo<DraftState>(() => selectDraftState(state), [
+        state.prompt, state.designOptions, state.designVersions, state.selectedVersionId, state.branchProjectId,
+        state.referenceSearchQuery, state.referenceImages, state.selectedReferenceImage, state.styleDescription,
+        state.selectedTattoo, state.tryOnImage, state.tryOnSourceImage, state.tryOnPhotoSize, state.layerHistory.present, state.skinBlend, state.tryOnProjectId,
+        state.finalImage, state.locationSearch, state.artists, state.artistSearchSources,
+    ]);
+
+    // What the last save wrote, so activating the draft it created doesn't write it again.
+    const lastDraftSaveRef = useRef<{ draft: { id: string; name: string }; state: DraftState; path: string } | null>(null);
+
+    const saveCurrentDraft = (draft: { id: string; name: string }, draftState: DraftState) => {
+        const updatedAt = new Date().toISOString();
+        const path = `${pathname}${search}`;
+        lastDraftSaveRef.current = { draft, state: draftState, path };
+        dispatch({ type: 'draftSaved', draft: { ...draft, updatedAt, path, thumbnail: draftThumbnail(draftState) } });
+        saveDraft({ ...draft, updatedAt, path, state: draftState }).catch(handleStorageError);
+    };
+
+    // Saves right away rather than waiting for the autosave, before the session switches to other work.
+    const flushDraft = () => {
+        if (state.activeDraft) {
+            saveCurrentDraft(state.activeDraft, draftState);
+        } else if (!isDraftEmpty(draftState)) {
+            saveCurrentDraft({ id: createDraftId(), name: defaultDraftName(draftState) }, draftState);
+        }
+    };
+
+    // Autosave waits for changes to settle, so typing a prompt or dragging a layer writes once.
+    useEffect(() => {
+        const { activeDraft } = state;
+        if (!activeDraft && isDraftEmpty(draftState)) return;
+        const lastSave = lastDraftSaveRef.current;
+        if (lastSave && lastSave.draft === activeDraft && lastSave.state === draftState && lastSave.path === `${pathname}${search}`) return;
+        const timer = setTimeout(() => {
+            const draft = activeDraft ?? { id: createDraftId(), name: defaultDraftName(draftState) };
+            if (!activeDraft) dispatch({ type: 'draftActivated', draft });
+            saveCurrentDraft(draft, draftState);
+        }, DRAFT_AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [draftState, state.activeDraft, pathname, search]);
+
+    const handleOpenDraft = async (draftId: string) => {
+        try {
+            const draft = await loadDraft(draftId);
+            if (!draft) {
+                dispatch({ type: 'draftRemoved', draftId });
+                return;
+            }
+            flushDraft();
+            // Nothing started for other work should land in this draft.
+            cancelAllTasks();
+            // The draft's artist results come back with it, so its URL shouldn't search again.
+            searchedLocationRef.current = draft.state.artists.length > 0
+                ? readArtistSearchQuery(new URLSearchParams(draft.path.split('?')[1] ?? '')).location
+                : null;
+            dispatch({ type: 'draftOpened', draft });
+            navigate(draft.path);
+        } catch (error) {
+            handleStorageError(error);
+        }
+    };
+
+    const handleRenameDraft = (draftId: string, name: string) => {
+        dispatch({ type: 'draftRenamed', draftId, name });
+        // The active draft picks up its new name with the next autosave.
+        if (draftId !== state.activeDraft?.id) renameDraft(draftId, name).catch(handleStorageError);
+    };
+
+    const handleDeleteDraft = (draftId: string) => {
+        deleteDraft(draftId).catch(handleStorageError);
+        if (draftId === state.activeDraft?.id) {
+            cancelAllTasks();
+            goToStep('START');
+        }
+        dispatch({ type: 'draftRemoved', draftId });
+    };
+
+    // Starts a new, empty draft. The current one stays in the drafts list.
+    const handleReset = () => {
+        flushDraft();
+        cancelAllTasks();
+        dispatch({ type: 'sessionReset' });
+        goToStep('START');
+    };
+
+    // Design
+    const handleAddUploadedDesigns = (images: string[]) => {
+        dispatch({ type: 'designsUploaded', versions: images.map(image => createDesignVersion(image, null, 'uploaded', { model: UPLOADED_DESIGN_MODEL })) });
+    };
+
+    const handleGenerateTattoo = () => {
+        const { prompt, styleDescription, selectedReferenceImage, designOptions, generationSettings } = state;
+        if (prompt.trim()) {
+            tasks.generate.mutate({ prompt, stylePrompt: styleDescription, referenceImage: selectedReferenceImage, designOptions, settings: generationSettings });
+        }
+    };
+
+    const handleSearchReference = () => {
+        if (state.referenceSearchQuery.trim()) {
+            tasks.reference.mutate(state.referenceSearchQuery);
+        }
+    };
+
+    const handleSelectReferenceImage = (image: string) => {
+        if (state.selectedReferenceImage !== image) {
+            tasks.style.mutate(dataURLtoFile(image, 'reference.jpg'));
+        }
+        dispatch({ type: 'referenceImageToggled', image });
+    };
+
+    const handleSelectTattoo = (tattoo: string, versionId: string | null = null) => {
+        dispatch({ type: 'tattooSelected', image: tattoo, versionId });
+        if (state.tryOnPhotoSize) {
+            handleAddDesignLayer(tattoo, 'Design 1');
+        }
+        goToStep('TRY_ON');
+    };
+
+    // Try-On
+    const handleAddDesignLayer = async (image: string, name: string, sceneSize = state.tryOnPhotoSize, transparentImage?: string) => {
+        if (!sceneSize) return;
+        try {
+            const layerImage = transparentImage ?? await removeWhiteBackground(image);
+            const img = await loadImage(layerImage);
+            const layer: TattooLayer = {
+                ...createTattooLayer(layerImage, name, { width: img.naturalWidth, height: img.naturalHeight }, sceneSize),
+                sourceImage: image,
+                backgroundTolerance: DEFAULT_WHITE_TOLERANCE,
+            };
+            dispatch({ type: 'layerAdded', layer });
+        } catch (error) {
+            console.error("Failed to add design layer", error);
+        }
+    };
+
+    const handleChangeBackgroundTolerance = async (layerId: string, tolerance: number) => {
+        const layer = state.layerHistory.present.find(l => l.id === layerId);
+        if (!layer) return;
+        dispatch({ type: 'layerToleranceChanged', layerId, tolerance });
+        try {
+            const image = await removeWhiteBackground(layer.sourceImage ?? layer.image, tolerance);
+            dispatch({ type: 'layerBackgroundRemoved', layerId, tolerance, image });
+        } catch (error) {
+            console.error("Failed to remove design background", error);
+        }
+    };
+
+    const handleApplyPhotoAdjustments = async (image: string) => {
+        const img = await loadImage(image);
+        const size = { width: img.naturalWidth, height: img.naturalHeight };
+        // Existing layers are carried over to the new photo; otherwise the selected design starts it off.
+        if (!(state.tryOnPhotoSize && state.layerHistory.present.length > 0) && state.selectedTattoo) {
+            handleAddDesignLayer(state.selectedTattoo, 'Design 1', size);
+        }
+        dispatch({ type: 'photoAdjusted', image, size });
+    };
+
+    const handleReopenTryOn = (project: Project) => {
+        if (!project.tryOnLayout) return;
+        dispatch({ type: 'tryOnReopened', project });
+        goToStep('TRY_ON');
+    };
+
+    const handleSaveTryOnLayout = () => {
+        const layout = selectTryOnLayout(state);
+        if (state.tryOnProjectId && layout) {
+            updateProject(state.tryOnProjectId, { tryOnLayout: layout });
+        }
+    };
+
+    // Artists
+    const handleFindArtists = (fromStartScreen = false) => {
+        let imageFile: File | null = null;
+        if (!fromStartScreen && state.finalImage) {
+            imageFile = dataURLtoFile(state.finalImage, 'final_design.png');
+        } else if (!fromStartScreen && state.selectedTattoo) {
+            imageFile = dataURLtoFile(state.selectedTattoo, 'selected_design.png');
+        }
+        const location = state.locationSearch.trim();
+        if (!location) return;
+        searchedLocationRef.current = location;
+        dispatch({ type: 'artistSearchStarted', location });
+        tasks.artists.mutate({ location, image: imageFile });
+        navigate(artistSearchPath({ ...lastArtistQueryRef.current, location }));
+    };
+
+    const updateArtistQuery = (changes: Partial<ArtistSearchQuery>) => {
+        navigate(artistSearchPath({ ...artistQuery, ...changes }), { replace: true });
+    };
+
+    useEffect(() => {
+        if (appStep === 'FIND_ARTIST') lastArtistQueryRef.current = artistQuery;
+    }, [appStep, artistQuery]);
+
+    // A shared link or the back button can ask for a search that isn't showing yet.
+    useEffect(() => {
+        const location = artistQuery.location;
+        if (appStep !== 'FIND_ARTIST' || !location || location === searchedLocationRef.current) return;
+        searchedLocationRef.current = location;
+        dispatch({ type: 'artistSearchStarted', location });
+        tasks.artists.mutate({ location, image: null });
+    }, [appStep, artistQuery.location]);
+
+    // Projects
+    const attachTransparentDesign = (projectId: string, design: string) => {
+        removeWhiteBackground(design)
+            .then(transparent => updateProject(projectId, project => project.designImage === design ? { designImageTransparent: transparent } : {}))
+            .catch(error => console.error("Failed to remove design background", error));
+    };
+
+    // Saves the selected design itself; the try-on preview, if any, is kept alongside it.
+    const handleSaveProject = (artist: Artist) => {
+        const { selectedVersionId, designVersions, selectedTattoo, finalImage } = state;
+        const design = designVersions.find(v => v.id === selectedVersionId)?.image ?? selectedTattoo;
+        if (!design) return;
+        const project: Project = {
+            id: `proj_${Date.now()}`,
+            designImage: design,
+            artist: artist,
+            savedAt: new Date().toISOString(),
+            conversation: [],
+            contract: createContract(),
+            tryOnLayout: selectTryOnLayout(state),
+            ...(finalImage ? { previewImage: finalImage } : {}),
+            ...(selectedVersionId ? { versions: getVersionTree(designVersions, selectedVersionId), currentVersionId: selectedVersionId } : {})
+        };
+        dispatch({ type: 'projectAdded', project });
+        attachTransparentDesign(project.id, design);
+    };
+
+    // Stencils are traced from the design and the preview shows it, so both are
+    // dropped whenever the design changes.
+    const setProjectDesign = (projectId: string, version: DesignVersion, versions?: DesignVersion[]) => {
+        updateProject(projectId, {
+            ...(versions ? { versions } : {}),
+            designImage: version.image,
+            designImageTransparent: undefined,
+            previewImage: undefined,
+            currentVersionId: version.id,
+            stencilImage: null,
+            stencilSvg: undefined,
+            stencilOptions: undefined,
+        });
+        attachTransparentDesign(projectId, version.image);
+    };
+
+    const handleRestoreVersion = (project: Project, versionId: string) => {
+        const version = project.versions?.find(v => v.id === versionId);
+        if (version) setProjectDesign(project.id, version);
+    };
+
+    const handleBranchFromVersion = (project: Project, versionId: string) => {
+        if (!resolveProvenance(project.versions ?? [], versionId)) return;
+        dispatch({ type: 'branchedFromVersion', project, versionId });
+        goToStep('DESIGN');
+    };
+
+    const handleDeleteProject = (projectId: string) => {
+        deleteProject(projectId)
+            .then(() => dispatch({ type: 'projectRemoved', projectId }))
+            .catch(handleStorageError);
+        goToStep('GALLERY');
+    };
+
+    const handleExportProjects = async (projectsToExport: Project[]) => {
+        if (projectsToExport.length === 0) return;
+        try {
+            const bundle = await exportProjectsBundle(projectsToExport);
+            downloadBlob(bundle, bundleFileName(projectsToExport));
+            dispatch({ type: 'projectSelectionEnded' });
+        } catch (error) {
+            console.error("Failed to export projects", error);
+            dispatch({ type: 'storageErrorRaised', message: 'The selected projects could not be exported.' });
+        }
+    };
+
+    const handleImportBundle = async (file: File) => {
+        try {
+            const imported = await readProjectsBundle(file);
+            const existingIds = new Set(state.projects.map(p => p.id));
+            const conflictCount = imported.filter(p => existingIds.has(p.id)).length;
+            let strategy: ImportConflictStrategy = 'duplicate';
+            if (conflictCount > 0) {
+                strategy = window.confirm(`${conflictCount} project(s) in this bundle already exist in your gallery. Replace them with the imported versions?\n\nChoose Cancel to keep both copies.`) ? 'replace' : 'duplicate';
+            }
+            dispatch({ type: 'projectsImported', projects: resolveImportConflicts(imported, existingIds, strategy) });
+        } catch (error) {
+            console.error("Failed to import project bundle", error);
+            dispatch({ type: 'storageErrorRaised', message: error instanceof Error ? error.message : 'The project bundle could not be imported.' });
+        }
+    };
+
+    const handleSendChatMessage = () => {
+        const text = state.chatDraft.trim();
+        if (!viewingProject || !text || tasks.chat.isPending) return;
+        const userMessage: Message = { sender: 'user', text, timestamp: new Date().toISOString() };
+        // The artist sees the conversation up to, but not including, the new message.
+        tasks.chat.mutate({ project: viewingProject, message: text, model: getChatModel() });
+        updateProject(viewingProject.id, project => ({ conversation: [...project.conversation, userMessage] }));
+        dispatch({ type: 'chatDraftChanged', text: '' });
+    };
+
+    return {
+        state,
+        dispatch,
+        tasks,
+        taskList,
+        isTaskRunning,
+        appStep,
+        artistQuery,
+        viewingProjectId,
+        viewingProject,
+        goToStep,
+        openProject,
+        handleCancelTask,
+        handleDismissTask,
+        handleRetryTask,
+        handleViewTask,
+        updateProject,
+        handleOpenDraft,
+        handleRenameDraft,
+        handleDeleteDraft,
+        handleReset,
+        handleAddUploadedDesigns,
+        handleGenerateTattoo,
+        handleSearchReference,
+        handleSelectReferenceImage,
+        handleSelectTattoo,
+        handleAddDesignLayer,
+        handleChangeBackgroundTolerance,
+        handleApplyPhotoAdjustments,
+        handleReopenTryOn,
+        handleSaveTryOnLayout,
+        handleFindArtists,
+        updateArtistQuery,
+        handleSaveProject,
+        setProjectDesign,
+        handleRestoreVersion,
+        handleBranchFromVersion,
+        handleDeleteProject,
+        handleExportProjects,
+        handleImportBundle,
+        handleSendChatMessage,
+    };
+};
+
+export type SessionStore = ReturnType<typeof useSessionStoreValue>;
+
+const SessionContext = createContext<SessionStore | null>(null);
+
+export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const store = useSessionStoreValue();
+    return <SessionContext.Provider value={store}>{children}</SessionContext.Provider>;
+};
+
+export const useSession = (): SessionStore => {
+    const store = useContext(SessionContext);
+    if (!store) {
+        throw new Error('useSession must be used within a SessionProvider');
+    }
+    return store;
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { Artist } from '../types';
+import { artistMapCenter, collectSpecialties, filterArtists } from './selectors';
+
+const artist = (name: string, fields: Partial<Artist> = {}): Artist => ({ name, description: '', address: '', ...fields });
+
+const ARTISTS: Artist[] = [
+    artist('Realism Co', { specialties: ['Realism'], availability: 'Books currently closed' }),
+    artist('Line Studio', { specialties: ['Fine-line', 'Geometric'], availability: 'Accepting new clients', styleMatch: true }),
+    artist('Old School', { specialties: ['Traditional', 'Realism'], availability: 'accepting walk-ins' }),
+    artist('Unknown'),
+];
+
+const names = (artists: Artist[]) => artists.map(a => a.name);
+
+describe('filterArtists', () => {
+    it('returns every artist in order by default', () => {
+        expect(names(filterArtists(ARTISTS, { specialties: [], availability: 'all', sort: 'default' }))).toEqual(names(ARTISTS));
+    });
+
+    it('keeps artists with any of the chosen specialties', () => {
+        expect(names(filterArtists(ARTISTS, { specialties: ['Realism'], availability: 'all', sort: 'default' })))
+            .toEqual(['Realism Co', 'Old School']);
+        expect(names(filterArtists(ARTISTS, { specialties: ['Geometric', 'Traditional'], availability: 'all', sort: 'default' })))
+            .toEqual(['Line Studio', 'Old School']);
+    });
+
+    it('keeps artists accepting clients, ignoring case', () => {
+        expect(names(filterArtists(ARTISTS, { specialties: [], availability: 'accepting', sort: 'default' })))
+            .toEqual(['Line Studio', 'Old School']);
+    });
+
+    it('sorts style matches first without reordering the rest', () => {
+        expect(names(filterArtists(ARTISTS, { specialties: [], availability: 'all', sort: 'styleMatch' })))
+            .toEqual(['Line Studio', 'Realism Co', 'Old School', 'Unknown']);
+    });
+
+    it('does not modify the input', () => {
+        const input = [...ARTISTS];
+        filterArtists(input, { specialties: [], availability: 'all', sort: 'styleMatch' });
+        expect(input).toEqual(ARTISTS);
+    });
+});
+
+describe('collectSpecialties', () => {
+    it('lists each specialty once', () => {
+        expect(collectSpecialties(ARTISTS)).toEqual(['Realism', 'Fine-line', 'Geometric', 'Traditional']);
+    });
+});
+
+describe('artistMapCenter', () => {
+    it('centres on the first artist with coordinates', () => {
+        expect(artistMapCenter([artist('A', { latitude: 40.7, longitude: -74 })])).toEqual([40.7, -74]);
+        expect(artistMapCenter([artist('A'), artist('B', { latitude: 51.5, longitude: -0.1 })])).toEqual([51.5, -0.1]);
+        expect(artistMapCenter([artist('A', { latitude: 40.7 }), artist('B')])).toBeNull();
+        expect(artistMapCenter([artist('A')])).toBeNull();
+        expect(artistMapCenter([])).toBeNull();
+    });
+
+    it('treats a zero coordinate as a real position', () => {
+        expect(artistMapCenter([artist('Greenwich', { latitude: 51.48, longitude: 0 })])).toEqual([51.48, 0]);
+        expect(artistMapCenter([artist('Equator', { latitude: 0, longitude: 32.58 })])).toEqual([0, 32.58]);
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Artist, ContractStatus, DraftState, Project, TryOnLayout } from '../types';
+import type { ArtistSearchQuery } from '../services/routes';
+import type { SessionState } from './sessionReducer';
+
+// Derived values of the session state. Plain functions of state, so the
+// steps and their tests compute them the same way.
+
+export const collectSpecialties = (artists: Artist[]): string[] =>
+    [...new Set(artists.flatMap(artist => artist.specialties || []))];
+
+// Where the map starts for a set of search results.
+export const artistMapCenter = (artists: Artist[]): [number, number] | null => {
+    const located = artists.find(a => Number.isFinite(a.latitude) && Number.isFinite(a.longitude));
+    return located ? [located.latitude!, located.longitude!] : null;
+};
+
+export const filterArtists = (artists: Artist[], query: Pick<ArtistSearchQuery, 'specialties' | 'availability' | 'sort'>): Artist[] => {
+    const sorted = [...artists];
+    if (query.sort === 'styleMatch') {
+        sorted.sort((a, b) => (b.styleMatch ? 1 : 0) - (a.styleMatch ? 1 : 0));
+    }
+    return sorted.filter(artist => {
+        const specialtyMatch = query.specialties.length === 0 || artist.specialties?.some(s => query.specialties.includes(s));
+        const availabilityMatch = query.availability === 'all' || (artist.availability?.toLowerCase() || '').includes('accepting');
+        return specialtyMatch && availabilityMatch;
+    });
+};
+
+export const filterProjectsByStatus = (projects: Project[], status: ContractStatus | 'all'): Project[] =>
+    status === 'all' ? projects : projects.filter(p => p.contract.status === status);
+
+export const selectTattooLayers = (state: SessionState) => state.layerHistory.present;
+
+export const selectGeneratedDesigns = (state: SessionState) =>
+    state.designVersions.filter(version => version.parentId === null);
+
+export const selectTryOnLayout = (state: SessionState): TryOnLayout | undefined =>
+    state.tryOnImage && state.tryOnPhotoSize
+        ? { photo: state.tryOnImage, photoWidth: state.tryOnPhotoSize.width, photoHeight: state.tryOnPhotoSize.height, layers: state.layerHistory.present, skinBlend: state.skinBlend }
+        : undefined;
+
+// The part of the session that is saved as a draft.
+export const selectDraftState = (state: SessionState): DraftState => ({
+    prompt: state.prompt,
+    designOptions: state.designOptions,
+    designVersions: state.designVersions,
+    selectedVersionId: state.selectedVersionId,
+    branchProjectId: state.branchProjectId,
+    referenceSearchQuery: state.referenceSearchQuery,
+    referenceImages: state.referenceImages,
+    selectedReferenceImage: state.selectedReferenceImage,
+    styleDescription: state.styleDescription,
+    selectedTattoo: state.selectedTattoo,
+    tryOnImage: state.tryOnImage,
+    tryOnSourceImage: state.tryOnSourceImage,
+    tryOnPhotoSize: state.tryOnPhotoSize,
+    tattooLayers: state.layerHistory.present,
+    skinBlend: state.skinBlend,
+    tryOnProjectId: state.tryOnProjectId,
+    finalImage: state.finalImage,
+    locationSearch: state.locationSearch,
+    artists: state.artists,
+    artistSearchSources: state.artistSearchSources,
+});
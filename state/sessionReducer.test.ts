@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { DesignVersion, DraftState, Project, SessionDraft, TattooLayer } from '../types';
+import { createContract } from '../services/contractService';
+import { createEmptyDraftState } from '../services/draftRepository';
+import { createInitialSessionState, SessionAction, SessionState, sessionReducer } from './sessionReducer';
+import { selectDraftState, selectTattooLayers } from './selectors';
+
+const version = (id: string, parentId: string | null = null, fields: Partial<DesignVersion> = {}): DesignVersion => ({
+    id,
+    parentId,
+    image: `data:image/png;base64,${id}`,
+    refinement: parentId ? 'variation' : 'generated',
+    model: 'mock-image',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    ...fields,
+});
+
+const layer = (id: string): TattooLayer => ({
+    id,
+    name: id,
+    image: 'data:image/png;base64,layer',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    scaleX: 1,
+    scaleY: 1,
+    opacity: 1,
+    blendMode: 'normal',
+    visible: true,
+    locked: false,
+});
+
+const project = (id: string, versions?: DesignVersion[]): Project => ({
+    id,
+    designImage: 'data:image/png;base64,design',
+    artist: { name: 'Ink Haus', description: '', address: '' },
+    savedAt: '2024-01-01T00:00:00.000Z',
+    conversation: [],
+    contract: createContract(),
+    ...(versions ? { versions, currentVersionId: versions[versions.length - 1].id } : {}),
+});
+
+const reduce = (state: SessionState, ...actions: SessionAction[]) => actions.reduce(sessionReducer, state);
+
+describe('sessionReducer', () => {
+    describe('version selection', () => {
+        const generated = reduce(createInitialSessionState(), { type: 'designsGenerated', versions: [version('a'), version('b')] });
+
+        it('selects a design and starts the try-on from scratch', () => {
+            const withLayers = reduce(generated, { type: 'layerAdded', layer: layer('old') }, { type: 'layerSelected', layerId: 'old' });
+            const state = reduce(withLayers, { type: 'tattooSelected', image: 'data:image/png;base64,b', versionId: 'b' });
+            expect(state.selectedTattoo).toBe('data:image/png;base64,b');
+            expect(state.selectedVersionId).toBe('b');
+            expect(selectTattooLayers(state)).toEqual([]);
+            expect(state.layerHistory.past).toEqual([]);
+            expect(state.selectedLayerId).toBeNull();
+        });
+
+        it('moves the open refine panel to the newest refinement', () => {
+            const refining = reduce(generated, { type: 'refiningVersionChanged', versionId: 'a' });
+            const state = reduce(refining, { type: 'designsRefined', versions: [version('a1', 'a'), version('a2', 'a')] });
+            expect(state.designVersions.map(v => v.id)).toEqual(['a', 'b', 'a1', 'a2']);
+            expect(state.refiningVersionId).toBe('a1');
+        });
+
+        it('leaves a closed refine panel closed when a refinement lands', () => {
+            const state = reduce(generated, { type: 'designsRefined', versions: [version('a1', 'a')] });
+            expect(state.refiningVersionId).toBeNull();
+        });
+
+        it('restores the generation inputs when branching from a saved version', () => {
+            const saved = project('proj_1', [version('r', null, { prompt: 'A koi fish', stylePrompt: 'Japanese' }), version('r1', 'r')]);
+            const state = reduce(generated, { type: 'branchedFromVersion', project: saved, versionId: 'r1' });
+            expect(state.designVersions.map(v => v.id)).toEqual(['r', 'r1']);
+            expect(state.prompt).toBe('A koi fish');
+            expect(state.styleDescription).toBe('Japanese');
+            expect(state.branchProjectId).toBe('proj_1');
+            expect(state.refiningVersionId).toBe('r1');
+
+            // Generating afresh leaves the branch behind.
+            const regenerated = reduce(state, { type: 'designsGenerated', versions: [version('c')] });
+            expect(regenerated.branchProjectId).toBeNull();
+            expect(regenerated.refiningVersionId).toBeNull();
+        });
+
+        it('ignores a branch from a version the project does not have', () => {
+            const saved = project('proj_1', [version('r')]);
+            expect(reduce(generated, { type: 'branchedFromVersion', project: saved, versionId: 'missing' })).toBe(generated);
+        });
+    });
+
+    describe('resetting for a new design', () => {
+        it('clears the design and try-on but keeps projects, drafts and settings', () => {
+            const saved = project('proj_1');
+            const busy = reduce(
+                createInitialSessionState({ activeDraft: { id: 'draft_1', name: 'Koi' }, isShowingDrafts: true }),
+                { type: 'promptChanged', prompt: 'A koi fish' },
+                { type: 'designsGenerated', versions: [version('a')] },
+                { type: 'tattooSelected', image: 'data:image/png;base64,a', versionId: 'a' },
+                { type: 'photoAdjusted', image: 'data:image/png;base64,photo', size: { width: 800, height: 600 } },
+                { type: 'layerAdded', layer: layer('l1') },
+                { type: 'finalImageCreated', image: 'data:image/png;base64,final' },
+                { type: 'projectAdded', project: saved },
+            );
+
+            const state = reduce(busy, { type: 'sessionReset' });
+            expect(selectDraftState(state)).toEqual(createEmptyDraftState());
+            expect(state.layerHistory.past).toEqual([]);
+            expect(state.activeDraft).toBeNull();
+            expect(state.isShowingDrafts).toBe(false);
+            expect(state.projects).toEqual([saved]);
+            expect(state.generationSettings).toBe(busy.generationSettings);
+        });
+
+        it('clears only the design when searching for artists from the start screen', () => {
+            const designed = reduce(
+                createInitialSessionState(),
+                { type: 'tattooSelected', image: 'data:image/png;base64,a', versionId: 'a' },
+                { type: 'finalImageCreated', image: 'data:image/png;base64,final' },
+            );
+            const state = reduce(designed, { type: 'designCleared' });
+            expect(state.selectedTattoo).toBeNull();
+            expect(state.finalImage).toBeNull();
+        });
+
+        it('resets the session when the active draft is deleted', () => {
+            const drafted = reduce(
+                createInitialSessionState({ activeDraft: { id: 'draft_1', name: 'Koi' } }),
+                { type: 'promptChanged', prompt: 'A koi fish' },
+            );
+            const state = reduce(drafted, { type: 'draftRemoved', draftId: 'draft_1' });
+            expect(state.prompt).toBe('');
+            expect(state.activeDraft).toBeNull();
+
+            const other = reduce(drafted, { type: 'draftRemoved', draftId: 'draft_2' });
+            expect(other.prompt).toBe('A koi fish');
+            expect(other.activeDraft).toEqual({ id: 'draft_1', name: 'Koi' });
+        });
+    });
+
+    describe('hydrating from a draft', () => {
+        const draftState: DraftState = {
+            ...createEmptyDraftState(),
+            prompt: 'A koi fish',
+            designVersions: [version('a')],
+            selectedVersionId: 'a',
+            selectedTattoo: 'data:image/png;base64,a',
+            tryOnImage: 'data:image/png;base64,photo',
+            tryOnPhotoSize: { width: 800, height: 600 },
+            tattooLayers: [layer('l1'), layer('l2')],
+            artists: [{ name: 'Ink Haus', description: '', address: '', latitude: 40.7, longitude: -74 }],
+        };
+        const draft: SessionDraft = { id: 'draft_1', name: 'Koi', updatedAt: '2024-01-01T00:00:00.000Z', path: '/try-on', state: draftState };
+
+        it('restores the saved state with a fresh undo history', () => {
+            const editing = reduce(
+                createInitialSessionState({ resumeDraft: { ...draft, thumbnail: null }, isShowingDrafts: true }),
+                { type: 'layerAdded', layer: layer('other') },
+                { type: 'layerSelected', layerId: 'other' },
+                { type: 'refiningVersionChanged', versionId: 'x' },
+            );
+
+            const state = reduce(editing, { type: 'draftOpened', draft });
+            expect(selectDraftState(state)).toEqual(draftState);
+            expect(state.layerHistory.past).toEqual([]);
+            expect(state.selectedLayerId).toBeNull();
+            expect(state.refiningVersionId).toBeNull();
+            expect(state.activeDraft).toEqual({ id: 'draft_1', name: 'Koi' });
+            expect(state.resumeDraft).toBeNull();
+            expect(state.isShowingDrafts).toBe(false);
+        });
+
+        it('recentres the map on the saved artists', () => {
+            const state = reduce(createInitialSessionState(), { type: 'draftOpened', draft });
+            expect(state.mapCenter).toEqual([40.7, -74]);
+            expect(state.searchedForArtists).toBe(true);
+        });
+
+        it('undoes only changes made after opening the draft', () => {
+            const opened = reduce(createInitialSessionState(), { type: 'draftOpened', draft });
+            const state = reduce(opened, { type: 'layerRemoved', layerId: 'l1' }, { type: 'layersUndone' }, { type: 'layersUndone' });
+            expect(selectTattooLayers(state).map(l => l.id)).toEqual(['l1', 'l2']);
+        });
+    });
+});
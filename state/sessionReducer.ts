@@ -0,0 +1,411 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Artist, ContractStatus, DesignOptions, DesignVersion, DraftState, DraftSummary, GenerationSettings, Project, SessionDraft, SkinBlendSettings, TattooLayer } from '../types';
+import type { ArtistSearchResult } from '../services/geminiService';
+import { createEmptyDraftState } from '../services/draftRepository';
+import { DEFAULT_GENERATION_SETTINGS } from '../services/generationSettings';
+import { DEFAULT_DESIGN_OPTIONS } from '../services/promptBuilder';
+import { DEFAULT_SKIN_BLEND } from '../services/skinBlend';
+import { moveLayer, removeLayer, rescaleLayers, updateLayer } from '../services/tattooLayers';
+import { resolveProvenance } from '../services/designVersions';
+import { createHistory, pushHistory, redoHistory, undoHistory, UndoHistory } from '../services/undoHistory';
+import { artistMapCenter } from './selectors';
+
+// The whole session as one value: the design → try-on → artist → project
+// flow plus the gallery and drafts around it. Every change is a typed action
+// and the reducer is pure, so the flow can be driven and checked without
+// rendering anything. Storage, AI calls and navigation stay in the store.
+
+type PhotoSize = { width: number; height: number };
+
+export interface SessionState extends Omit<DraftState, 'tattooLayers'> {
+    // Try-on layers and their undo stack.
+    layerHistory: UndoHistory<TattooLayer[]>;
+    refiningVersionId: string | null;
+    generationSettings: GenerationSettings;
+    isAdjustingPhoto: boolean;
+    selectedLayerId: string | null;
+    isEditingWarp: boolean;
+    mapCenter: [number, number] | null;
+    selectedArtistId: string | null;
+    searchedForArtists: boolean;
+    bookingArtist: Artist | null;
+    projects: Project[];
+    projectsLoaded: boolean;
+    galleryStatusFilter: ContractStatus | 'all';
+    isSelectingProjects: boolean;
+    selectedProjectIds: string[];
+    chatDraft: string;
+    streamingReply: { projectId: string; text: string } | null;
+    storageError: string | null;
+    // The draft this session autosaves to; null until there is something worth saving.
+    activeDraft: { id: string; name: string } | null;
+    drafts: DraftSummary[];
+    // The most recent draft, offered once on load.
+    resumeDraft: DraftSummary | null;
+    isShowingDrafts: boolean;
+}
+
+// Updates can be computed from the latest project, so async results never apply to a stale copy.
+export type ProjectUpdate = Partial<Project> | ((project: Project) => Partial<Project>);
+
+export type SessionAction =
+    // Design
+    | { type: 'promptChanged'; prompt: string }
+    | { type: 'designOptionsChanged'; designOptions: DesignOptions }
+    | { type: 'generationSettingsChanged'; settings: GenerationSettings }
+    | { type: 'referenceSearchQueryChanged'; query: string }
+    | { type: 'referenceImagesFound'; images: string[] }
+    | { type: 'referenceImageToggled'; image: string }
+    | { type: 'styleDescribed'; description: string }
+    | { type: 'designsGenerated'; versions: DesignVersion[] }
+    | { type: 'designsUploaded'; versions: DesignVersion[] }
+    | { type: 'designsRefined'; versions: DesignVersion[] }
+    | { type: 'refiningVersionChanged'; versionId: string | null }
+    | { type: 'tattooSelected'; image: string; versionId: string | null }
+    | { type: 'branchedFromVersion'; project: Project; versionId: string }
+    // Try-on
+    | { type: 'tryOnPhotoChosen'; image: string }
+    | { type: 'photoAdjustmentStarted' }
+    | { type: 'photoAdjustmentCancelled' }
+    | { type: 'photoAdjusted'; image: string; size: PhotoSize }
+    | { type: 'layerAdded'; layer: TattooLayer }
+    | { type: 'layerChanged'; layerId: string; updates: Partial<TattooLayer>; coalesceKey?: string }
+    | { type: 'layerToleranceChanged'; layerId: string; tolerance: number }
+    | { type: 'layerBackgroundRemoved'; layerId: string; tolerance: number; image: string }
+    | { type: 'layerMoved'; layerId: string; direction: 'up' | 'down' }
+    | { type: 'layerRemoved'; layerId: string }
+    | { type: 'layerSelected'; layerId: string | null }
+    | { type: 'layersUndone' }
+    | { type: 'layersRedone' }
+    | { type: 'warpEditToggled' }
+    | { type: 'skinBlendChanged'; skinBlend: SkinBlendSettings }
+    | { type: 'finalImageCreated'; image: string }
+    | { type: 'tryOnReopened'; project: Project }
+    // Artists
+    | { type: 'designCleared' }
+    | { type: 'locationSearchChanged'; location: string }
+    | { type: 'artistSearchStarted'; location: string }
+    | { type: 'artistsFound'; result: ArtistSearchResult }
+    | { type: 'artistSelected'; artistId: string; center?: [number, number] }
+    | { type: 'bookingArtistChanged'; artist: Artist | null }
+    // Projects
+    | { type: 'projectsLoaded'; projects: Project[] }
+    | { type: 'projectAdded'; project: Project }
+    | { type: 'projectUpdated'; projectId: string; updates: ProjectUpdate }
+    | { type: 'projectsImported'; projects: Project[] }
+    | { type: 'projectRemoved'; projectId: string }
+    | { type: 'galleryFilterChanged'; status: ContractStatus | 'all' }
+    | { type: 'projectSelectionStarted' }
+    | { type: 'projectSelectionEnded' }
+    | { type: 'projectSelectionToggled'; projectId: string }
+    | { type: 'chatDraftChanged'; text: string }
+    | { type: 'chatReplyStarted'; projectId: string }
+    | { type: 'chatReplyReceived'; projectId: string; delta: string }
+    | { type: 'chatReplyEnded' }
+    | { type: 'storageErrorRaised'; message: string }
+    | { type: 'storageErrorDismissed' }
+    // Drafts
+    | { type: 'draftsListed'; drafts: DraftSummary[] }
+    | { type: 'draftSaved'; draft: DraftSummary }
+    | { type: 'draftActivated'; draft: { id: string; name: string } }
+    | { type: 'draftOpened'; draft: SessionDraft }
+    | { type: 'draftRenamed'; draftId: string; name: string }
+    | { type: 'draftRemoved'; draftId: string }
+    | { type: 'resumePromptDismissed' }
+    | { type: 'draftsPanelToggled'; isOpen: boolean }
+    | { type: 'sessionReset' };
+
+export const createInitialSessionState = (overrides: Partial<SessionState> = {}): SessionState => {
+    const { tattooLayers, ...draftState } = createEmptyDraftState();
+    return {
+        ...draftState,
+        layerHistory: createHistory(tattooLayers),
+        refiningVersionId: null,
+        generationSettings: DEFAULT_GENERATION_SETTINGS,
+        isAdjustingPhoto: false,
+        selectedLayerId: null,
+        isEditingWarp: false,
+        mapCenter: null,
+        selectedArtistId: null,
+        searchedForArtists: false,
+        bookingArtist: null,
+        projects: [],
+        projectsLoaded: false,
+        galleryStatusFilter: 'all',
+        isSelectingProjects: false,
+        selectedProjectIds: [],
+        chatDraft: '',
+        streamingReply: null,
+        storageError: null,
+        activeDraft: null,
+        drafts: [],
+        resumeDraft: null,
+        isShowingDrafts: false,
+        ...overrides,
+    };
+};
+
+// Undo can remove the selected layer, or redo bring it back.
+const withLayerHistory = (state: SessionState, layerHistory: UndoHistory<TattooLayer[]>, selectedLayerId = state.selectedLayerId): SessionState => {
+    const selected = selectedLayerId && layerHistory.present.some(layer => layer.id === selectedLayerId) ? selectedLayerId : null;
+    return { ...state, layerHistory, selectedLayerId: selected, isEditingWarp: selected ? state.isEditingWarp : false };
+};
+
+const pushLayers = (state: SessionState, layers: TattooLayer[], coalesceKey?: string) =>
+    withLayerHistory(state, pushHistory(state.layerHistory, layers, coalesceKey));
+
+const toleranceKey = (layerId: string) => `tolerance:${layerId}`;
+
+const applyDraftState = (state: SessionState, { tattooLayers, ...draftState }: DraftState): SessionState => ({
+    ...state,
+    ...draftState,
+    layerHistory: createHistory(tattooLayers),
+    selectedLayerId: null,
+    isEditingWarp: false,
+    refiningVersionId: null,
+    isAdjustingPhoto: false,
+    mapCenter: artistMapCenter(draftState.artists),
+    searchedForArtists: draftState.artists.length > 0,
+});
+
+const updateProjects = (projects: Project[], projectId: string, updates: ProjectUpdate) =>
+    projects.map(project => project.id === projectId
+        ? { ...project, ...(typeof updates === 'function' ? updates(project) : updates) }
+        : project);
+
+export const sessionReducer = (state: SessionState, action: SessionAction): SessionState => {
+    switch (action.type) {
+        case 'promptChanged':
+            return { ...state, prompt: action.prompt };
+        case 'designOptionsChanged':
+            return { ...state, designOptions: action.designOptions };
+        case 'generationSettingsChanged':
+            return { ...state, generationSettings: action.settings };
+        case 'referenceSearchQueryChanged':
+            return { ...state, referenceSearchQuery: action.query };
+        case 'referenceImagesFound':
+            return { ...state, referenceImages: action.images };
+        case 'referenceImageToggled':
+            return state.selectedReferenceImage === action.image
+                ? { ...state, selectedReferenceImage: null, styleDescription: '' }
+                : { ...state, selectedReferenceImage: action.image };
+        case 'styleDescribed':
+            return { ...state, styleDescription: action.description };
+        case 'designsGenerated':
+            return { ...state, designVersions: action.versions, refiningVersionId: null, branchProjectId: null };
+        // Uploads join the current designs rather than replacing them, so they can be compared side by side.
+        case 'designsUploaded':
+            return { ...state, designVersions: [...state.designVersions, ...action.versions] };
+        case 'designsRefined':
+            return {
+                ...state,
+                designVersions: [...state.designVersions, ...action.versions],
+                // Only jump to the result if the panel is still open; otherwise it waits in the task tray.
+                refiningVersionId: state.refiningVersionId && action.versions[0] ? action.versions[0].id : state.refiningVersionId,
+            };
+        case 'refiningVersionChanged':
+            return { ...state, refiningVersionId: action.versionId };
+        case 'tattooSelected':
+            return {
+                ...state,
+                selectedTattoo: action.image,
+                selectedVersionId: action.versionId,
+                refiningVersionId: null,
+                layerHistory: createHistory([]),
+                selectedLayerId: null,
+                isEditingWarp: false,
+                tryOnProjectId: null,
+            };
+        case 'branchedFromVersion': {
+            const versions = action.project.versions ?? [];
+            const provenance = resolveProvenance(versions, action.versionId);
+            if (!provenance) return state;
+            return {
+                ...state,
+                designVersions: versions,
+                prompt: provenance.prompt ?? '',
+                styleDescription: provenance.stylePrompt ?? '',
+                selectedReferenceImage: provenance.referenceImage ?? null,
+                designOptions: provenance.designOptions ?? DEFAULT_DESIGN_OPTIONS,
+                branchProjectId: action.project.id,
+                refiningVersionId: action.versionId,
+            };
+        }
+
+        case 'tryOnPhotoChosen':
+            return { ...state, tryOnSourceImage: action.image, isAdjustingPhoto: true };
+        case 'photoAdjustmentStarted':
+            return { ...state, isAdjustingPhoto: true };
+        case 'photoAdjustmentCancelled':
+            return { ...state, isAdjustingPhoto: false, tryOnSourceImage: state.tryOnImage ? state.tryOnSourceImage : null };
+        case 'photoAdjusted': {
+            const layers = state.layerHistory.present;
+            const adjusted = { ...state, tryOnImage: action.image, tryOnPhotoSize: action.size, isAdjustingPhoto: false };
+            // Earlier history entries are positioned on the old photo, so the stack starts over.
+            return state.tryOnPhotoSize && layers.length > 0
+                ? withLayerHistory(adjusted, createHistory(rescaleLayers(layers, state.tryOnPhotoSize, action.size)))
+                : adjusted;
+        }
+        case 'layerAdded':
+            return withLayerHistory(state, pushHistory(state.layerHistory, [...state.layerHistory.present, action.layer]), action.layer.id);
+        case 'layerChanged':
+            return pushLayers(state, updateLayer(state.layerHistory.present, action.layerId, action.updates), action.coalesceKey);
+        case 'layerToleranceChanged': {
+            const layer = state.layerHistory.present.find(l => l.id === action.layerId);
+            if (!layer) return state;
+            // Layers saved before background removal only have their original image.
+            const updates = { sourceImage: layer.sourceImage ?? layer.image, backgroundTolerance: action.tolerance };
+            return pushLayers(state, updateLayer(state.layerHistory.present, action.layerId, updates), toleranceKey(action.layerId));
+        }
+        case 'layerBackgroundRemoved':
+            // Only apply the result if the slider hasn't moved on since.
+            return pushLayers(
+                state,
+                state.layerHistory.present.map(l => l.id === action.layerId && l.backgroundTolerance === action.tolerance ? { ...l, image: action.image } : l),
+                toleranceKey(action.layerId)
+            );
+        case 'layerMoved':
+            return pushLayers(state, moveLayer(state.layerHistory.present, action.layerId, action.direction));
+        case 'layerRemoved':
+            return pushLayers(state, removeLayer(state.layerHistory.present, action.layerId));
+        case 'layerSelected':
+            return withLayerHistory(state, state.layerHistory, action.layerId);
+        case 'layersUndone':
+            return withLayerHistory(state, undoHistory(state.layerHistory));
+        case 'layersRedone':
+            return withLayerHistory(state, redoHistory(state.layerHistory));
+        case 'warpEditToggled':
+            return { ...state, isEditingWarp: !state.isEditingWarp };
+        case 'skinBlendChanged':
+            return { ...state, skinBlend: action.skinBlend };
+        case 'finalImageCreated':
+            return { ...state, finalImage: action.image };
+        case 'tryOnReopened': {
+            const { project } = action;
+            const layout = project.tryOnLayout;
+            if (!layout) return state;
+            return {
+                ...state,
+                selectedTattoo: project.designImage,
+                designVersions: project.versions ?? [],
+                selectedVersionId: project.currentVersionId ?? null,
+                tryOnImage: layout.photo,
+                tryOnSourceImage: layout.photo,
+                tryOnPhotoSize: { width: layout.photoWidth, height: layout.photoHeight },
+                isAdjustingPhoto: false,
+                layerHistory: createHistory(layout.layers),
+                skinBlend: layout.skinBlend ?? DEFAULT_SKIN_BLEND,
+                selectedLayerId: null,
+                isEditingWarp: false,
+                tryOnProjectId: project.id,
+                finalImage: null,
+            };
+        }
+
+        case 'designCleared':
+            return { ...state, selectedTattoo: null, finalImage: null };
+        case 'locationSearchChanged':
+            return { ...state, locationSearch: action.location };
+        case 'artistSearchStarted':
+            return { ...state, locationSearch: action.location, searchedForArtists: false };
+        case 'artistsFound':
+            return {
+                ...state,
+                artists: action.result.artists,
+                artistSearchSources: action.result.sources,
+                mapCenter: artistMapCenter(action.result.artists),
+                searchedForArtists: true,
+            };
+        case 'artistSelected':
+            return { ...state, selectedArtistId: action.artistId, mapCenter: action.center ?? state.mapCenter };
+        case 'bookingArtistChanged':
+            return { ...state, bookingArtist: action.artist };
+
+        case 'projectsLoaded': {
+            // Keep anything saved while the gallery was still loading.
+            const loadedIds = new Set(action.projects.map(p => p.id));
+            return { ...state, projects: [...action.projects, ...state.projects.filter(p => !loadedIds.has(p.id))], projectsLoaded: true };
+        }
+        case 'projectAdded':
+            return { ...state, projects: [...state.projects, action.project] };
+        case 'projectUpdated':
+            return { ...state, projects: updateProjects(state.projects, action.projectId, action.updates) };
+        case 'projectsImported': {
+            const byId = new Map(state.projects.map(p => [p.id, p]));
+            action.projects.forEach(p => byId.set(p.id, p));
+            return { ...state, projects: [...byId.values()] };
+        }
+        case 'projectRemoved':
+            return {
+                ...state,
+                projects: state.projects.filter(p => p.id !== action.projectId),
+                selectedProjectIds: state.selectedProjectIds.filter(id => id !== action.projectId),
+            };
+        case 'galleryFilterChanged':
+            return { ...state, galleryStatusFilter: action.status };
+        case 'projectSelectionStarted':
+            return { ...state, isSelectingProjects: true };
+        case 'projectSelectionEnded':
+            return { ...state, isSelectingProjects: false, selectedProjectIds: [] };
+        case 'projectSelectionToggled': {
+            const ids = state.selectedProjectIds;
+            return { ...state, selectedProjectIds: ids.includes(action.projectId) ? ids.filter(id => id !== action.projectId) : [...ids, action.projectId] };
+        }
+        case 'chatDraftChanged':
+            return { ...state, chatDraft: action.text };
+        case 'chatReplyStarted':
+            return { ...state, streamingReply: { projectId: action.projectId, text: '' } };
+        case 'chatReplyReceived':
+            return state.streamingReply?.projectId === action.projectId
+                ? { ...state, streamingReply: { ...state.streamingReply, text: state.streamingReply.text + action.delta } }
+                : state;
+        case 'chatReplyEnded':
+            return { ...state, streamingReply: null };
+        case 'storageErrorRaised':
+            return { ...state, storageError: action.message };
+        case 'storageErrorDismissed':
+            return { ...state, storageError: null };
+
+        case 'draftsListed':
+            return { ...state, drafts: action.drafts, resumeDraft: action.drafts[0] ?? null };
+        case 'draftSaved':
+            return { ...state, drafts: [action.draft, ...state.drafts.filter(d => d.id !== action.draft.id)] };
+        case 'draftActivated':
+            return { ...state, activeDraft: action.draft };
+        case 'draftOpened':
+            return {
+                ...applyDraftState(state, action.draft.state),
+                activeDraft: { id: action.draft.id, name: action.draft.name },
+                resumeDraft: null,
+                isShowingDrafts: false,
+            };
+        case 'draftRenamed':
+            return {
+                ...state,
+                drafts: state.drafts.map(d => d.id === action.draftId ? { ...d, name: action.name } : d),
+                activeDraft: state.activeDraft?.id === action.draftId ? { id: action.draftId, name: action.name } : state.activeDraft,
+            };
+        case 'draftRemoved': {
+            const remaining = {
+                ...state,
+                drafts: state.drafts.filter(d => d.id !== action.draftId),
+                resumeDraft: state.resumeDraft?.id === action.draftId ? null : state.resumeDraft,
+            };
+            // Otherwise the autosave would bring it straight back.
+            return state.activeDraft?.id === action.draftId
+                ? { ...applyDraftState(remaining, createEmptyDraftState()), activeDraft: null }
+                : remaining;
+        }
+        case 'resumePromptDismissed':
+            return { ...state, resumeDraft: null };
+        case 'draftsPanelToggled':
+            return { ...state, isShowingDrafts: action.isOpen };
+        // Starts a new, empty draft. The current one stays in the drafts list.
+        case 'sessionReset':
+            return { ...applyDraftState(state, createEmptyDraftState()), activeDraft: null, resumeDraft: null, isShowingDrafts: false };
+    }
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { Project } from '../types';
+import { setAiProvider } from '../services/aiProvider';
+import { createContract } from '../services/contractService';
+import { createMockProvider } from '../services/mockProvider';
+import { createInitialSessionState, SessionAction, sessionReducer } from './sessionReducer';
+import { useSessionTasks } from './useSessionTasks';
+
+// Two different 1x1 PNGs.
+const DESIGN = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+const NEW_DESIGN = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+const project = (designImage: string): Project => ({
+    id: 'proj_1',
+    designImage,
+    artist: { name: 'Ink Haus', description: '', address: '' },
+    savedAt: '2024-01-01T00:00:00.000Z',
+    conversation: [],
+    contract: createContract(),
+});
+
+// Runs the stencil task and returns the project after its result is applied.
+const stencilProject = async (current: Project) => {
+    const dispatch = vi.fn<(action: SessionAction) => void>();
+    const queryClient = new QueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) => <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+    const { result } = renderHook(() => useSessionTasks(dispatch, createInitialSessionState, () => {}), { wrapper });
+
+    act(() => result.current.stencil.mutate({ projectId: 'proj_1', design: DESIGN }));
+    await waitFor(() => expect(dispatch).toHaveBeenCalled(), { timeout: 2000 });
+    const state = dispatch.mock.calls.reduce((state, [action]) => sessionReducer(state, action), createInitialSessionState({ projects: [current] }));
+    return state.projects[0];
+};
+
+beforeEach(() => {
+    setAiProvider(createMockProvider());
+});
+
+afterEach(() => {
+    setAiProvider(null);
+});
+
+describe('stencil task', () => {
+    it('stores the stencil on the project it was made for', async () => {
+        expect((await stencilProject(project(DESIGN))).stencilImage).toBeTruthy();
+    });
+
+    it('drops the stencil when the design changed while it was traced', async () => {
+        expect((await stencilProject(project(NEW_DESIGN))).stencilImage).toBeUndefined();
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type React from 'react';
+import { blendVirtualTattoo, findArtists, searchReferenceImages, describeImageStyle, streamArtistResponse, generateTattooStencil, generateTattooDesign, generateDesignVariations, getDesignModels, editTattooDesign, inpaintTattooDesign } from '../services/geminiService';
+import { compositeThroughMask, dataURLtoFile } from '../services/imageUtils';
+import { getInkPalette, quantizeToPalette } from '../services/palette';
+import { createDesignVersion, resolveProvenance } from '../services/designVersions';
+import { useCancellableMutation } from '../hooks/useCancellableMutation';
+import { taskMutationKey } from '../hooks/useTasks';
+import type { RefineRequest } from '../components/RefinePanel';
+import type { DesignOptions, DesignVersion, GenerationSettings, InkColor, Message, Project } from '../types';
+import type { SessionAction, SessionState } from './sessionReducer';
+
+const snapToInkPalette = (images: string[], palette: InkColor[] | null): Promise<string[]> =>
+    palette ? Promise.all(images.map(async image => (await quantizeToPalette(image, palette)).image)) : Promise.resolve(images);
+
+// The session's AI jobs, one mutation per task kind. Results are dispatched to
+// the store when they land, whichever step the user is on by then.
+export const useSessionTasks = (dispatch: React.Dispatch<SessionAction>, getState: () => SessionState, onBlended: () => void) => {
+    const generate = useCancellableMutation({
+        mutationKey: taskMutationKey('generate'),
+        mutationFn: async (vars: { prompt: string, stylePrompt?: string, referenceImage?: string | null, designOptions: DesignOptions, settings: GenerationSettings }, signal: AbortSignal) => {
+            const images = await generateTattooDesign(vars.prompt, vars.stylePrompt, vars.designOptions, vars.settings, signal);
+            return snapToInkPalette(images, getInkPalette(vars.designOptions));
+        },
+        onSuccess: (data, vars) => {
+            const model = getDesignModels(vars.settings).imageGeneration;
+            const versions = data.map(image => createDesignVersion(image, null, 'generated', { model, prompt: vars.prompt, stylePrompt: vars.stylePrompt, referenceImage: vars.referenceImage, designOptions: vars.designOptions }));
+            dispatch({ type: 'designsGenerated', versions });
+        },
+    });
+    const refine = useCancellableMutation({
+        mutationKey: taskMutationKey('refine'),
+        mutationFn: async (vars: { parent: DesignVersion, request: RefineRequest }, signal: AbortSignal): Promise<string[]> => {
+            const { parent, request } = vars;
+            // Refinements stay on the palette their design was generated with.
+            const palette = getInkPalette(resolveProvenance(getState().designVersions, parent.id)?.designOptions);
+            if (request.refinement === 'variation') {
+                return snapToInkPalette(await generateDesignVariations(parent.image, signal), palette);
+            }
+            if (request.refinement === 'edit') {
+                return snapToInkPalette([await editTattooDesign(parent.image, request.instruction, signal)], palette);
+            }
+            const edited = await inpaintTattooDesign(parent.image, request.mask, request.instruction, signal);
+            return snapToInkPalette([await compositeThroughMask(parent.image, edited, request.mask)], palette);
+        },
+        onSuccess: (images, vars) => {
+            const instruction = vars.request.refinement === 'variation' ? undefined : vars.request.instruction;
+            const model = getDesignModels().imageEdit;
+            dispatch({ type: 'designsRefined', versions: images.map(image => createDesignVersion(image, vars.parent.id, vars.request.refinement, { model, instruction })) });
+        },
+    });
+    const reference = useCancellableMutation({
+        mutationKey: taskMutationKey('reference'),
+        mutationFn: (query: string, signal: AbortSignal) => searchReferenceImages(query, getState().generationSettings, signal),
+        onSuccess: (images) => dispatch({ type: 'referenceImagesFound', images }),
+    });
+    const style = useCancellableMutation({
+        mutationKey: taskMutationKey('style'),
+        mutationFn: describeImageStyle,
+        onSuccess: (description) => dispatch({ type: 'styleDescribed', description }),
+    });
+    const blend = useCancellableMutation({
+        mutationKey: taskMutationKey('blend'),
+        mutationFn: (image: File, signal: AbortSignal) => blendVirtualTattoo(image, signal),
+        onSuccess: (image) => {
+            dispatch({ type: 'finalImageCreated', image });
+            onBlended();
+        },
+    });
+    const stencil = useCancellableMutation({
+        mutationKey: taskMutationKey('stencil'),
+        mutationFn: (vars: { projectId: string, design: string }, signal: AbortSignal) => generateTattooStencil(dataURLtoFile(vars.design, 'design.png'), signal),
+        // The design may have been changed while the stencil was traced from it.
+        onSuccess: (stencilImage, vars) => dispatch({
+            type: 'projectUpdated',
+            projectId: vars.projectId,
+            updates: project => project.designImage === vars.design ? { stencilImage } : {},
+        }),
+    });
+    const artists = useCancellableMutation({
+        mutationKey: taskMutationKey('artists'),
+        mutationFn: (vars: { location: string, image?: File | null }, signal: AbortSignal) => findArtists(vars.location, vars.image, signal),
+        onSuccess: (result) => dispatch({ type: 'artistsFound', result }),
+    });
+    const chat = useCancellableMutation({
+        mutationKey: taskMutationKey('chat'),
+        mutationFn: (vars: { project: Project, message: string, model: string }, signal: AbortSignal) => {
+            const projectId = vars.project.id;
+            dispatch({ type: 'chatReplyStarted', projectId });
+            return streamArtistResponse(vars.project, vars.message, vars.model, (delta) => dispatch({ type: 'chatReplyReceived', projectId, delta }), signal);
+        },
+        onSuccess: (text, vars) => {
+            const message: Message = { sender: 'artist', text, timestamp: new Date().toISOString() };
+            dispatch({ type: 'projectUpdated', projectId: vars.project.id, updates: project => ({ conversation: [...project.conversation, message] }) });
+        },
+        onSettled: () => dispatch({ type: 'chatReplyEnded' }),
+    });
+
+    return { generate, refine, reference, style, blend, stencil, artists, chat };
+};
+
+export type SessionTasks = ReturnType<typeof useSessionTasks>;
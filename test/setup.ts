@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import 'fake-indexeddb/auto';
+
+// fake-indexeddb copies values with Node's structuredClone, which doesn't
+// know jsdom's Blob and would store it as an empty object. Blobs are
+// immutable, so keeping the same instance is as good as a copy.
+const nativeStructuredClone = globalThis.structuredClone;
+const cloneKeepingBlobs = (value: unknown): unknown => {
+    if (value instanceof Blob) return value;
+    if (Array.isArray(value)) return value.map(cloneKeepingBlobs);
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneKeepingBlobs(item)]));
+    }
+    return nativeStructuredClone(value);
+};
+globalThis.structuredClone = <T>(value: T): T => cloneKeepingBlobs(value) as T;
+
+// jsdom does no layout, so it has no scrolling either.
+Element.prototype.scrollIntoView = () => {};
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GroundingSource } from './services/aiProvider';
+
+export type ContractStatus = 'Pending' | 'Approved' | 'In Progress' | 'Completed';
+
+export interface ContractPrice {
+  currency: string; // ISO 4217 code, e.g. "USD"
+  amount: number | null;
+  deposit: number | null;
+}
+
+export interface ContractChange {
+  changedAt: string;
+  field: 'status' | 'price' | 'appointmentDate';
+  from: string;
+  to: string;
+}
+
+export interface Contract {
+  status: ContractStatus;
+  price: ContractPrice;
+  appointmentDate: string; // ISO 8601 timestamp, or '' when not scheduled
+  history: ContractChange[];
+}
+
+// The steps of the flow, from designing a tattoo to finding an artist and keeping the project.
+export type AppStep = 'START' | 'DESIGN' | 'TRY_ON' | 'DONE' | 'FIND_ARTIST' | 'GALLERY';
+
+export interface Artist {
+  name: string;
+  description: string;
+  address: string;
+  website?: string;
+  specialties?: string[];
+  availability?: string;
+  portfolioUrl?: string;
+  portfolio?: string[];
+  latitude?: number;
+  longitude?: number;
+  styleMatch?: boolean;
+}
+
+export interface Message {
+  sender: 'user' | 'artist';
+  text: string;
+  timestamp: string;
+}
+
+export interface Project {
+  id: string;
+  designImage: string;
+  // The design with its white background made transparent, for placing on skin.
+  designImageTransparent?: string;
+  stencilImage?: string | null;
+  // Locally traced vector stencil, as SVG markup, and the options it was traced with.
+  stencilSvg?: string;
+  stencilOptions?: StencilOptions;
+  artist: Artist;
+  savedAt: string;
+  conversation: Message[];
+  contract: Contract;
+  tryOnLayout?: TryOnLayout;
+  // The try-on preview (design composited onto the photo) the project was saved from.
+  previewImage?: string;
+  // Version tree the design came from, and which version is the current design.
+  versions?: DesignVersion[];
+  currentVersionId?: string;
+}
+
+export type TattooBlendMode = 'normal' | 'multiply' | 'darken';
+
+// One design placed on the try-on photo. Positions are in stage pixels;
+// `width`/`height` are the unscaled display size of the design.
+export interface TattooLayer {
+  id: string;
+  name: string;
+  image: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scaleX: number;
+  scaleY: number;
+  rotation: number;
+  opacity: number;
+  blendMode: TattooBlendMode;
+  visible: boolean;
+  locked: boolean;
+  warp?: MeshWarp;
+  // The design as generated, on white. `image` is derived from it by
+  // removing the background at `backgroundTolerance`.
+  sourceImage?: string;
+  backgroundTolerance?: number;
+}
+
+// A grid of control points, row by row, normalized to the layer's unwarped
+// rectangle. Curvature and axis record the cylinder preset the mesh started from.
+export interface MeshWarp {
+  columns: number;
+  rows: number;
+  points: { x: number; y: number }[];
+  curvature: number;
+  axis: WarpAxis;
+}
+
+// Direction of the limb the design wraps around.
+export type WarpAxis = 'vertical' | 'horizontal';
+
+// Everything needed to reopen a try-on exactly as it was left.
+export interface TryOnLayout {
+  photo: string;
+  photoWidth: number;
+  photoHeight: number;
+  layers: TattooLayer[];
+  skinBlend?: SkinBlendSettings;
+}
+
+// Local, non-AI preview of how the ink sits in skin. Both values are 0..1;
+// healing goes from fresh ink to fully healed.
+export interface SkinBlendSettings {
+  enabled: boolean;
+  inkDensity: number;
+  healing: number;
+}
+
+// Detail is 0..1; line weight is in stroke units per 1000px of the design.
+export interface StencilOptions {
+  detail: number;
+  lineWeight: number;
+}
+
+export type TattooStyleId =
+  | 'american-traditional'
+  | 'neo-traditional'
+  | 'japanese-irezumi'
+  | 'fine-line'
+  | 'blackwork'
+  | 'dotwork'
+  | 'realism'
+  | 'geometric'
+  | 'watercolor'
+  | 'tribal';
+
+export type InkColorMode = 'black-and-grey' | 'color';
+export type LineWeight = 'fine' | 'medium' | 'bold';
+export type DesignComposition = 'freeform' | 'round' | 'vertical' | 'band';
+export type BodyPlacement = 'any' | 'forearm' | 'upper-arm' | 'wrist' | 'hand' | 'chest' | 'back' | 'ribs' | 'thigh' | 'calf' | 'ankle' | 'neck';
+
+export interface InkColor {
+  name: string;
+  // #rrggbb
+  hex: string;
+}
+
+// Structured choices for a design generation. A null style leaves the style to
+// the prompt and any reference image.
+export interface DesignOptions {
+  style: TattooStyleId | null;
+  colorMode: InkColorMode;
+  lineWeight: LineWeight;
+  composition: DesignComposition;
+  placement: BodyPlacement;
+  // Inks a color design is limited to; black linework is always allowed.
+  palette?: InkColor[];
+}
+
+export type GenerationAspectRatio = '1:1' | '3:4' | '9:16' | '16:9';
+
+// How many images to request and in what shape. A null model means the
+// provider's default; a null seed means a fresh random result each time.
+export interface GenerationSettings {
+  count: number;
+  aspectRatio: GenerationAspectRatio;
+  model: string | null;
+  seed: number | null;
+}
+
+export type DesignRefinement = 'generated' | 'uploaded' | 'variation' | 'edit' | 'inpaint';
+
+// One node of a design's version tree. Roots come straight from generation or an upload;
+// every refinement adds a child of the version it started from.
+export interface DesignVersion {
+  id: string;
+  parentId: string | null;
+  image: string;
+  refinement: DesignRefinement;
+  // The user's description of the change, for edits and inpainting.
+  instruction?: string;
+  // Model that produced this image.
+  model: string;
+  // Generation inputs. Only roots carry them; refinements inherit their root's.
+  prompt?: string;
+  stylePrompt?: string;
+  referenceImage?: string;
+  designOptions?: DesignOptions;
+  createdAt: string;
+}
+
+// The unfinished work of one session, enough to pick it up after a reload.
+export interface DraftState {
+  prompt: string;
+  designOptions: DesignOptions;
+  designVersions: DesignVersion[];
+  selectedVersionId: string | null;
+  // Saved project the designs were branched from, if any.
+  branchProjectId: string | null;
+  referenceSearchQuery: string;
+  referenceImages: string[];
+  selectedReferenceImage: string | null;
+  styleDescription: string;
+  selectedTattoo: string | null;
+  // The adjusted try-on photo and the original it was adjusted from.
+  tryOnImage: string | null;
+  tryOnSourceImage: string | null;
+  tryOnPhotoSize: { width: number; height: number } | null;
+  tattooLayers: TattooLayer[];
+  skinBlend: SkinBlendSettings;
+  tryOnProjectId: string | null;
+  finalImage: string | null;
+  locationSearch: string;
+  artists: Artist[];
+  artistSearchSources: GroundingSource[];
+}
+
+export interface SessionDraft {
+  id: string;
+  name: string;
+  updatedAt: string;
+  // The route the draft was last on, so resuming returns there.
+  path: string;
+  state: DraftState;
+}
+
+// What the drafts list shows, without loading every image of every draft.
+export interface DraftSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  path: string;
+  thumbnail: string | null;
+}